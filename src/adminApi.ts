@@ -0,0 +1,323 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Session, SessionStatus, OperationResult } from './types';
+import { RestApi, HttpError, sendJson, readBody, parseJson, operationError, serializeSession } from './restApi';
+import { LedgerEntry, LedgerQuery, ledgerToCsv } from './ledger';
+import { Logger, logger } from './logger';
+
+// Admin API
+//
+// Support tooling over HTTP, enabled by setting ADMIN_TOKEN. Every request needs
+// `Authorization: Bearer <ADMIN_TOKEN>`.
+//
+//   GET    /admin/sessions                 list sessions, newest first; filter with ?userId=,
+//                                          ?chatId=, ?status=, ?purpose= (none for sessions
+//                                          without one) and cap with ?limit= (default 100)
+//   GET    /admin/sessions/:id             session details and its timeline
+//   POST   /admin/sessions/:id/expire      force-expire the session (bot and frontend get
+//                                          session_expired); optional body { reason }
+//   DELETE /admin/sessions/:id             cancel the session, as if its bot had cancelled it
+//   GET    /admin/bots                     connected bots with their connections and queue depth
+//   DELETE /admin/bots/:botId              disconnect every connection of a bot
+//   GET    /admin/ledger                   transaction ledger entries, oldest first; filter with
+//                                          ?userId=, ?chatId=, ?walletId=, ?from= and ?to= (ISO
+//                                          dates, inclusive) and ?success=true|false; ?format=csv
+//                                          downloads CSV instead of JSON
+
+interface AdminBotConnection {
+  connectionId: string;
+  keyId: string;
+  clientAddress: string;
+  connectedAt: Date;
+  lastSeenAt: Date | null;
+}
+
+interface AdminBotInfo {
+  botId: string;
+  // Instance holding the bot's connections, null for this instance
+  instanceId: string | null;
+  connections: AdminBotConnection[];
+  queueDepth: number;
+}
+
+interface AdminOperations {
+  listSessions(): Session[];
+  findSession(sessionId: string): Session | undefined;
+  expireSession(sessionId: string, reason: string): OperationResult;
+  listBots(): AdminBotInfo[];
+  // Returns how many connections were closed on this instance
+  disconnectBot(botId: string): number;
+  queryLedger(query: LedgerQuery): LedgerEntry[];
+}
+
+interface TimelineEntry {
+  at: string;
+  event: string;
+  [detail: string]: unknown;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+
+const SESSION_STATUSES: SessionStatus[] = ['created', 'connected', 'wallet_connected', 'tx_pending', 'completed', 'failed', 'expired'];
+
+function authenticate(req: http.IncomingMessage, token: string): void {
+  const header = req.headers.authorization || '';
+  const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(token);
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    throw new HttpError(401, 'Authentication failed');
+  }
+}
+
+function sessionFilter(query: URLSearchParams): (session: Session) => boolean {
+  const status = query.get('status');
+  if (status && !SESSION_STATUSES.includes(status as SessionStatus)) {
+    throw new HttpError(400, `Unknown status ${status}`);
+  }
+  const userId = query.get('userId');
+  const chatId = query.get('chatId');
+  const purpose = query.get('purpose');
+
+  return session =>
+    (!userId || session.userId === userId)
+    && (!chatId || session.chatId === chatId)
+    && (!status || session.status === status)
+    && (!purpose || (session.disconnectPurpose || 'none') === purpose);
+}
+
+function listLimit(query: URLSearchParams): number {
+  const raw = query.get('limit');
+  if (!raw) return DEFAULT_LIST_LIMIT;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new HttpError(400, `limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+function ledgerQuery(query: URLSearchParams): LedgerQuery {
+  const date = (name: string): Date | undefined => {
+    const raw = query.get(name);
+    if (!raw) return undefined;
+    const value = new Date(raw);
+    if (isNaN(value.getTime())) throw new HttpError(400, `${name} must be an ISO date`);
+    return value;
+  };
+  const success = query.get('success');
+  if (success && success !== 'true' && success !== 'false') {
+    throw new HttpError(400, 'success must be true or false');
+  }
+
+  return {
+    userId: query.get('userId') || undefined,
+    chatId: query.get('chatId') || undefined,
+    walletId: query.get('walletId') || undefined,
+    from: date('from'),
+    to: date('to'),
+    success: success ? success === 'true' : undefined
+  };
+}
+
+function summarizeSession(session: Session): object {
+  return {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    chatId: session.chatId,
+    username: session.username,
+    botId: session.botId || null,
+    status: session.status,
+    disconnectPurpose: session.disconnectPurpose || null,
+    createdAt: session.createdAt.toISOString(),
+    statusChangedAt: session.statusChangedAt.toISOString(),
+    stateExpiresAt: session.stateExpiresAt?.toISOString() || null,
+    transactionRequests: session.transactionRequests.length
+  };
+}
+
+// State changes and transaction requests in the order they happened
+function sessionTimeline(session: Session): TimelineEntry[] {
+  const entries: { at: Date; entry: TimelineEntry }[] = [];
+
+  session.history.forEach(({ status, at, reason }) => {
+    entries.push({ at, entry: { at: at.toISOString(), event: status, ...(reason !== undefined && { reason }) } });
+  });
+  session.transactionRequests.forEach(request => {
+    entries.push({
+      at: request.requestedAt,
+      entry: { at: request.requestedAt.toISOString(), event: 'transaction_requested', requestId: request.requestId }
+    });
+    if (request.resolvedAt) {
+      entries.push({
+        at: request.resolvedAt,
+        entry: {
+          at: request.resolvedAt.toISOString(),
+          event: `transaction_${request.status}`,
+          requestId: request.requestId,
+          txHash: request.txHash
+        }
+      });
+    }
+  });
+
+  // Stable sort keeps a state change ahead of a request recorded at the same instant
+  return entries
+    .map((item, index) => ({ ...item, index }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime() || a.index - b.index)
+    .map(item => item.entry);
+}
+
+function serializeBot(bot: AdminBotInfo, now: number): object {
+  return {
+    botId: bot.botId,
+    instanceId: bot.instanceId,
+    queueDepth: bot.queueDepth,
+    connections: bot.connections.map(connection => ({
+      connectionId: connection.connectionId,
+      keyId: connection.keyId,
+      clientAddress: connection.clientAddress,
+      connectedAt: connection.connectedAt.toISOString(),
+      connectionAgeMs: now - connection.connectedAt.getTime(),
+      lastSeenAt: connection.lastSeenAt?.toISOString() || null
+    }))
+  };
+}
+
+function reasonFrom(body: string, fallback: string): string {
+  const { reason } = parseJson(body);
+  return typeof reason === 'string' && reason ? reason : fallback;
+}
+
+// Decode a path segment; malformed escapes such as %E0 are the client's fault
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, 'Malformed URL path');
+  }
+}
+
+function createAdminApi(operations: AdminOperations, token: string | null, maxBodyBytes: number, log: Logger = logger): RestApi {
+  async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!token) throw new HttpError(404, 'Not found');
+
+    const url = new URL(req.url || '', 'http://localhost');
+    const [, , resource, rawId, action, ...rest] = url.pathname.split('/');
+    const method = req.method || 'GET';
+
+    const body = await readBody(req, maxBodyBytes);
+    authenticate(req, token);
+    const id = rawId && decodeSegment(rawId);
+
+    if (rest.length > 0) throw new HttpError(404, 'Not found');
+
+    if (resource === 'sessions') {
+      if (!id) {
+        if (method !== 'GET') throw new HttpError(405, 'Method not allowed');
+
+        const matching = operations.listSessions()
+          .filter(sessionFilter(url.searchParams))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        sendJson(res, 200, {
+          total: matching.length,
+          sessions: matching.slice(0, listLimit(url.searchParams)).map(summarizeSession)
+        });
+        return;
+      }
+
+      if (action === 'expire') {
+        if (method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+        const reason = reasonFrom(body, 'Expired by admin');
+        const result = operations.expireSession(id, reason);
+        if (!result.ok) throw operationError(result);
+        log.info('Admin expired session', { sessionId: id, reason });
+        sendJson(res, 200, { session: serializeSession(result.session) });
+        return;
+      }
+      if (action) throw new HttpError(404, 'Not found');
+
+      switch (method) {
+        case 'GET': {
+          const session = operations.findSession(id);
+          if (!session) throw new HttpError(404, 'Invalid session');
+          sendJson(res, 200, {
+            session: { ...serializeSession(session), botId: session.botId || null },
+            timeline: sessionTimeline(session)
+          });
+          return;
+        }
+        case 'DELETE': {
+          const reason = reasonFrom(body, 'Cancelled by admin');
+          const result = operations.expireSession(id, reason);
+          if (!result.ok) throw operationError(result);
+          log.info('Admin cancelled session', { sessionId: id, reason });
+          sendJson(res, 200, { session: serializeSession(result.session) });
+          return;
+        }
+        default:
+          throw new HttpError(405, 'Method not allowed');
+      }
+    }
+
+    if (resource === 'ledger' && !id) {
+      if (method !== 'GET') throw new HttpError(405, 'Method not allowed');
+
+      const format = url.searchParams.get('format') || 'json';
+      if (format !== 'json' && format !== 'csv') throw new HttpError(400, 'format must be json or csv');
+
+      const entries = operations.queryLedger(ledgerQuery(url.searchParams));
+      if (format === 'csv') {
+        res.writeHead(200, {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="ledger.csv"'
+        });
+        res.end(ledgerToCsv(entries));
+        return;
+      }
+      sendJson(res, 200, { total: entries.length, entries });
+      return;
+    }
+
+    if (resource === 'bots' && !action) {
+      if (!id) {
+        if (method !== 'GET') throw new HttpError(405, 'Method not allowed');
+        const now = Date.now();
+        sendJson(res, 200, { bots: operations.listBots().map(bot => serializeBot(bot, now)) });
+        return;
+      }
+
+      if (method !== 'DELETE') throw new HttpError(405, 'Method not allowed');
+      const disconnected = operations.disconnectBot(id);
+      log.info('Admin disconnected bot', { botId: id, connections: disconnected });
+      sendJson(res, 200, { botId: id, disconnected });
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  return {
+    handles: req => /^\/admin(\/|$|\?)/.test(req.url || ''),
+    handle: (req, res) => {
+      route(req, res).catch(error => {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, {
+            error: error.message,
+            ...(error.code && { code: error.code })
+          });
+          return;
+        }
+        log.error('Admin API request failed', { method: req.method, path: req.url, error });
+        sendJson(res, 500, { error: 'Internal server error' });
+      });
+    }
+  };
+}
+
+export {
+  AdminBotConnection,
+  AdminBotInfo,
+  AdminOperations,
+  createAdminApi
+};
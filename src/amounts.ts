@@ -0,0 +1,42 @@
+// Amount arithmetic
+//
+// Deposits and token amounts travel as non-negative integer strings (yoctoNEAR, or a token's
+// smallest unit) and legacy transfers as NEAR with up to 24 decimals. On chain they are u128,
+// so everything here works on the strings and never goes through floating point. Like
+// protocol.ts this has no Node dependencies.
+
+const YOCTO_DECIMALS = 24;
+
+// 2^128 - 1
+const U128_MAX = '340282366920938463463374607431768211455';
+
+// Convert a validated NEAR amount ("1.25") to yoctoNEAR
+function nearToYocto(amount: string): string {
+  const [whole, fraction = ''] = amount.split('.');
+  return (whole + fraction + '0'.repeat(YOCTO_DECIMALS - fraction.length)).replace(/^0+(?=\d)/, '');
+}
+
+// Add two non-negative integer strings
+function addAmounts(a: string, b: string): string {
+  let result = '';
+  let carry = 0;
+  for (let i = a.length - 1, j = b.length - 1; i >= 0 || j >= 0 || carry; i--, j--) {
+    const sum = (i >= 0 ? Number(a[i]) : 0) + (j >= 0 ? Number(b[j]) : 0) + carry;
+    result = (sum % 10) + result;
+    carry = Math.floor(sum / 10);
+  }
+  return result.replace(/^0+(?=\d)/, '') || '0';
+}
+
+// Whether an integer string without leading zeros fits in a u128. Strings of equal length
+// compare like the numbers they hold.
+function fitsU128(amount: string): boolean {
+  return amount.length < U128_MAX.length || (amount.length === U128_MAX.length && amount <= U128_MAX);
+}
+
+export {
+  U128_MAX,
+  nearToYocto,
+  addAmounts,
+  fitsU128
+};
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { BotAuthConfig } from './config';
+
+// Bot authentication
+//
+// Bots prove they hold one of the configured keys with an HMAC challenge/response:
+//   1. bot  -> { type: 'bot_connect', botId? }
+//   2. srv  -> { type: 'bot_challenge', nonce }
+//   3. bot  -> { type: 'bot_auth', keyId, signature: hex(HMAC-SHA256(secret, nonce)) }
+//
+// Keys come from BOT_AUTH_KEYS ("keyId:secret,keyId:secret") and/or BOT_AUTH_KEYS_FILE
+// (JSON object of keyId -> secret, or keyId -> { secret, botIds }). Several keys can be active
+// at once, so a key is rotated by adding the new one, reloading, moving the bots over and then
+// removing the old one. Reloading only affects future handshakes; bots that already
+// authenticated stay connected. Each server instance holds its keys in its own BotKeyring.
+//
+// The botId sent with bot_connect (or the key ID when omitted) becomes the bot's identity.
+// Sessions remember the identity that created them and their notifications go only there. A
+// key may only act as its own key ID and the bot IDs bound to it with BOT_AUTH_KEY_BOTS
+// ("keyId:botA|botB,...") or botIds in the key file, so one key cannot reach another bot's
+// sessions, queue or webhooks.
+//
+// HTTP requests to the bot REST API are signed with the same keys:
+//   X-Bot-Key-Id, X-Bot-Id (optional), X-Bot-Timestamp (unix seconds), X-Bot-Nonce and
+//   X-Bot-Signature: hex(HMAC-SHA256(secret, `${timestamp}.${nonce}.${botId}.${METHOD}.${path}.${body}`))
+// where botId is X-Bot-Id, or the key ID when the header is omitted, and nonce is a fresh
+// random string (8-128 characters) per request. Requests whose timestamp is more than
+// BOT_REQUEST_MAX_SKEW_MS away from the server clock are rejected, and so is a nonce the key
+// already used within that window, so a captured request cannot be replayed. Seen nonces are
+// kept per server instance.
+
+interface BotChallenge {
+  nonce: string;
+  issuedAt: number;
+}
+
+interface BotKey {
+  secret: string;
+  // Bot IDs the key may act as besides its own key ID
+  botIds: Set<string>;
+}
+
+function parseKeyList(raw: string): Map<string, string> {
+  const keys = new Map<string, string>();
+  raw.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`Invalid BOT_AUTH_KEYS entry (expected keyId:secret)`);
+    }
+    keys.set(entry.slice(0, separator), entry.slice(separator + 1));
+  });
+  return keys;
+}
+
+function parseKeyBots(raw: string): Map<string, string[]> {
+  const bindings = new Map<string, string[]>();
+  raw.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    const botIds = entry.slice(separator + 1).split('|').map(botId => botId.trim()).filter(Boolean);
+    if (separator <= 0 || botIds.length === 0) {
+      throw new Error(`Invalid BOT_AUTH_KEY_BOTS entry (expected keyId:botId|botId)`);
+    }
+    bindings.set(entry.slice(0, separator), botIds);
+  });
+  return bindings;
+}
+
+function parseKeyFile(path: string): Map<string, BotKey> {
+  const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Bot key file ${path} must contain a JSON object of keyId -> secret`);
+  }
+
+  const keys = new Map<string, BotKey>();
+  Object.entries(parsed).forEach(([keyId, value]: [string, any]) => {
+    const secret = typeof value === 'string' ? value : value?.secret;
+    const botIds = typeof value === 'string' ? [] : value?.botIds || [];
+    if (typeof secret !== 'string' || !secret) {
+      throw new Error(`Bot key file ${path} has an invalid secret for ${keyId}`);
+    }
+    if (!Array.isArray(botIds) || !botIds.every(botId => typeof botId === 'string' && botId)) {
+      throw new Error(`Bot key file ${path} has invalid botIds for ${keyId}`);
+    }
+    keys.set(keyId, { secret, botIds: new Set(botIds) });
+  });
+  return keys;
+}
+
+function createBotChallenge(): BotChallenge {
+  return {
+    nonce: crypto.randomBytes(32).toString('hex'),
+    issuedAt: Date.now()
+  };
+}
+
+function signBotChallenge(secret: string, nonce: string): string {
+  return crypto.createHmac('sha256', secret).update(nonce).digest('hex');
+}
+
+function signBotRequest(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  botId: string,
+  method: string,
+  path: string,
+  body: string
+): string {
+  return crypto.createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${botId}.${method.toUpperCase()}.${path}.${body}`)
+    .digest('hex');
+}
+
+class BotKeyring {
+  private keys = new Map<string, BotKey>();
+  // `${keyId}.${nonce}` -> when it may be forgotten. Entries are added with the same lifetime,
+  // so insertion order is expiry order.
+  private seenNonces = new Map<string, number>();
+
+  constructor(private readonly config: BotAuthConfig) {}
+
+  // (Re)load the configured bot keys. On error the previous key set is kept.
+  load(): number {
+    const keys = new Map<string, BotKey>();
+
+    if (this.config.keys) {
+      parseKeyList(this.config.keys).forEach((secret, keyId) => keys.set(keyId, { secret, botIds: new Set() }));
+    }
+    if (this.config.keysFile) {
+      parseKeyFile(this.config.keysFile).forEach((key, keyId) => keys.set(keyId, key));
+    }
+    if (this.config.keyBots) {
+      parseKeyBots(this.config.keyBots).forEach((botIds, keyId) => {
+        const key = keys.get(keyId);
+        if (!key) throw new Error(`BOT_AUTH_KEY_BOTS names unknown key ${keyId}`);
+        botIds.forEach(botId => key.botIds.add(botId));
+      });
+    }
+
+    this.keys = keys;
+    return this.keys.size;
+  }
+
+  // Whether the key may act as botId
+  ownsBot(keyId: string, botId: string): boolean {
+    const key = this.keys.get(keyId);
+    return !!key && (botId === keyId || key.botIds.has(botId));
+  }
+
+  verifyResponse(challenge: BotChallenge | undefined, keyId: unknown, signature: unknown): boolean {
+    if (!challenge || Date.now() - challenge.issuedAt > this.config.challengeTtlMs) return false;
+    if (typeof keyId !== 'string' || typeof signature !== 'string') return false;
+
+    const key = this.keys.get(keyId);
+    if (!key) return false;
+
+    const expected = Buffer.from(signBotChallenge(key.secret, challenge.nonce), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  verifyRequest(
+    keyId: unknown,
+    timestamp: unknown,
+    nonce: unknown,
+    signature: unknown,
+    botId: string,
+    method: string,
+    path: string,
+    body: string
+  ): boolean {
+    if (typeof keyId !== 'string' || typeof timestamp !== 'string' || typeof signature !== 'string') return false;
+    if (typeof nonce !== 'string' || nonce.length < 8 || nonce.length > 128) return false;
+
+    const seconds = Number(timestamp);
+    if (!Number.isInteger(seconds) || Math.abs(Date.now() - seconds * 1000) > this.config.requestMaxSkewMs) return false;
+
+    const key = this.keys.get(keyId);
+    if (!key) return false;
+
+    const expected = Buffer.from(signBotRequest(key.secret, timestamp, nonce, botId, method, path, body), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) return false;
+
+    return this.useNonce(`${keyId}.${nonce}`);
+  }
+
+  // Remember a nonce for as long as a request carrying it could pass the timestamp check
+  private useNonce(id: string): boolean {
+    const now = Date.now();
+    for (const [seen, expiresAt] of this.seenNonces) {
+      if (expiresAt > now) break;
+      this.seenNonces.delete(seen);
+    }
+
+    if (this.seenNonces.has(id)) return false;
+    this.seenNonces.set(id, now + 2 * this.config.requestMaxSkewMs);
+    return true;
+  }
+}
+
+export {
+  BotChallenge,
+  BotKeyring,
+  createBotChallenge,
+  signBotChallenge,
+  signBotRequest
+};
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BotNotification } from './protocol';
+import { BotQueueConfig } from './config';
+import { Logger, logger } from './logger';
+
+// Outbound bot queues
+//
+// Every notification for a bot is stored in that bot's queue under an increasing sequence
+// number before it is sent. Bots acknowledge with { type: 'bot_ack', seq } (cumulative) and
+// report the last sequence they saw when they reconnect; everything after it is replayed.
+// Queues are bounded by depth and age so a bot that never comes back cannot exhaust memory.
+// With BOT_QUEUE_STORE=file (the default) the queues are written to BOT_QUEUE_PATH and survive
+// a restart. Notifications that end a session or a transaction request are written and synced
+// before enqueue() returns, so a crash cannot lose a result the frontend was already told about;
+// other changes are batched and written at most once per BOT_QUEUE_FLUSH_MS.
+//
+// Sequence numbers only mean something within one queue. Each queue has a random epoch that
+// bot_connected reports; a queue that was not persisted starts over at seq 1 with a new epoch
+// after a restart, and another cluster instance has queues of its own. Bots send the epoch back
+// with lastSeq and bot_ack, and a lastSeq or ack for another epoch is ignored instead of
+// deleting notifications the bot never saw.
+
+// Written to disk before enqueue() returns
+const SYNC_WRITE_TYPES = new Set<BotNotification['type']>(['transaction_completed', 'verification_failed', 'wallet_disconnected', 'session_expired']);
+
+interface QueuedMessage {
+  seq: number;
+  enqueuedAt: number;
+  message: BotNotification;
+}
+
+interface BotQueue {
+  epoch: string;
+  lastSeq: number;
+  dropped: number;
+  messages: QueuedMessage[];
+}
+
+interface BotQueueStats {
+  depth: number;
+  lastSeq: number;
+  dropped: number;
+  oldestAgeMs: number | null;
+}
+
+class BotOutbox {
+  private queues = new Map<string, BotQueue>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly maxDepth: number,
+    private readonly ttl: number,
+    private readonly filePath: string | null = null,
+    private readonly flushDelayMs: number = 0,
+    private readonly log: Logger = logger
+  ) {
+    this.restore();
+  }
+
+  // Epoch of the bot's queue, which the bot echoes with lastSeq and acks
+  epoch(botId: string): string {
+    return this.getQueue(botId).epoch;
+  }
+
+  enqueue(botId: string, message: BotNotification): QueuedMessage {
+    const queue = this.getQueue(botId);
+    const entry: QueuedMessage = {
+      seq: ++queue.lastSeq,
+      enqueuedAt: Date.now(),
+      message
+    };
+
+    queue.messages.push(entry);
+    this.pruneQueue(queue);
+    if (SYNC_WRITE_TYPES.has(message.type)) {
+      this.flush();
+    } else {
+      this.persist();
+    }
+    return entry;
+  }
+
+  // Drop everything up to and including seq
+  ack(botId: string, seq: number): void {
+    const queue = this.queues.get(botId);
+    if (!queue) return;
+
+    const before = queue.messages.length;
+    queue.messages = queue.messages.filter(entry => entry.seq > seq);
+    if (queue.messages.length !== before) this.persist();
+  }
+
+  // Messages the bot has not seen yet
+  pending(botId: string, afterSeq: number = 0): QueuedMessage[] {
+    const queue = this.queues.get(botId);
+    if (!queue) return [];
+
+    this.pruneQueue(queue);
+    return queue.messages.filter(entry => entry.seq > afterSeq);
+  }
+
+  prune(): void {
+    this.queues.forEach(queue => this.pruneQueue(queue));
+    this.persist();
+  }
+
+  // Write pending changes now and stop the flush timer
+  close(): void {
+    if (this.flushTimer) this.flush();
+  }
+
+  getStats(): Record<string, BotQueueStats> {
+    const now = Date.now();
+    const stats: Record<string, BotQueueStats> = {};
+    this.queues.forEach((queue, botId) => {
+      stats[botId] = {
+        depth: queue.messages.length,
+        lastSeq: queue.lastSeq,
+        dropped: queue.dropped,
+        oldestAgeMs: queue.messages.length > 0 ? now - queue.messages[0].enqueuedAt : null
+      };
+    });
+    return stats;
+  }
+
+  private getQueue(botId: string): BotQueue {
+    let queue = this.queues.get(botId);
+    if (!queue) {
+      queue = { epoch: newEpoch(), lastSeq: 0, dropped: 0, messages: [] };
+      this.queues.set(botId, queue);
+    }
+    return queue;
+  }
+
+  private pruneQueue(queue: BotQueue): void {
+    const cutoff = Date.now() - this.ttl;
+    const fresh = queue.messages.filter(entry => entry.enqueuedAt >= cutoff);
+    const overflow = Math.max(0, fresh.length - this.maxDepth);
+
+    queue.dropped += queue.messages.length - fresh.length + overflow;
+    queue.messages = fresh.slice(overflow);
+  }
+
+  // Schedule a write of the queues; changes within flushDelayMs share one write
+  private persist(): void {
+    if (!this.filePath || this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => this.flush(), this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+
+  private flush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (!this.filePath) return;
+
+    const snapshot: Record<string, BotQueue> = {};
+    this.queues.forEach((queue, botId) => snapshot[botId] = queue);
+
+    try {
+      const tmpPath = `${this.filePath}.tmp`;
+      const fd = fs.openSync(tmpPath, 'w');
+      try {
+        fs.writeFileSync(fd, JSON.stringify(snapshot));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.log.error('Could not write bot queues', { path: this.filePath, error });
+    }
+  }
+
+  private restore(): void {
+    if (!this.filePath) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      Object.entries(saved).forEach(([botId, queue]) => {
+        this.queues.set(botId, { epoch: newEpoch(), ...(queue as Omit<BotQueue, 'epoch'>) });
+      });
+    } catch (error) {
+      this.log.error('Could not restore bot queues', { path: this.filePath, error });
+    }
+  }
+}
+
+function newEpoch(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+function createBotOutbox(config: BotQueueConfig, log: Logger = logger): BotOutbox {
+  return new BotOutbox(config.maxDepth, config.ttlMs, config.store === 'file' ? config.path : null, config.flushMs, log);
+}
+
+export {
+  QueuedMessage,
+  BotQueueStats,
+  BotOutbox,
+  createBotOutbox
+};
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import {
+  BotMessage,
+  BotRequest,
+  BotNotification,
+  CreateSessionMessage,
+  CreateDisconnectSessionMessage,
+  SessionCreatedMessage,
+  DisconnectSessionCreatedMessage,
+  TransactionSentMessage,
+  SessionClosedMessage,
+  TransactionData
+} from '../protocol';
+import { ClientOptions, SocketClient, WebSocketLike } from './socketClient';
+
+// Typed client for bots: authenticates, creates sessions, pushes transactions and receives
+// session notifications. Notifications are acknowledged automatically once handlers ran, and
+// the last sequence seen is sent on reconnect so the server replays anything missed. Sequence
+// numbers belong to the queue epoch reported by bot_connected; when the epoch changes (the
+// server restarted or the bot landed on another instance) counting starts over.
+
+interface BotClientOptions extends ClientOptions {
+  keyId: string;
+  secret: string;
+  botId?: string;
+  // Acknowledge notifications after handlers ran (default true)
+  autoAck?: boolean;
+}
+
+type CreateSessionParams = Omit<CreateSessionMessage, 'type'>;
+type CreateDisconnectSessionParams = Omit<CreateDisconnectSessionMessage, 'type'>;
+
+const NOTIFICATION_TYPES = new Set<BotNotification['type']>([
+  'wallet_connected',
+  'wallet_disconnected',
+  'transaction_completed',
+  'verification_failed',
+  'session_expired'
+]);
+
+class BotClient extends SocketClient<BotRequest, BotMessage> {
+  private lastSeq = 0;
+  private queueEpoch: string | null = null;
+
+  constructor(url: string, private readonly options: BotClientOptions) {
+    super(url, {
+      createSocket: (socketUrl: string) => new WebSocket(socketUrl) as unknown as WebSocketLike,
+      ...options
+    });
+  }
+
+  async connect(): Promise<string> {
+    await this.open();
+
+    const challenge = await this.request({
+      type: 'bot_connect',
+      ...(this.options.botId && { botId: this.options.botId }),
+      ...(this.lastSeq > 0 && this.queueEpoch && { lastSeq: this.lastSeq, queueEpoch: this.queueEpoch })
+    }, 'bot_challenge');
+
+    const signature = crypto.createHmac('sha256', this.options.secret).update(challenge.nonce).digest('hex');
+    const connected = await this.request({ type: 'bot_auth', keyId: this.options.keyId, signature }, 'bot_connected');
+    return connected.botId;
+  }
+
+  createSession(params: CreateSessionParams): Promise<SessionCreatedMessage> {
+    return this.request({ type: 'create_session', ...params }, 'session_created');
+  }
+
+  createDisconnectSession(params: CreateDisconnectSessionParams): Promise<DisconnectSessionCreatedMessage> {
+    return this.request({ type: 'create_disconnect_session', ...params }, 'disconnect_session_created');
+  }
+
+  // The reply carries the request ID that the result notification will be tagged with. Reuse
+  // idempotencyKey when retrying so the transaction is only sent to the wallet once.
+  processTransaction(sessionId: string, transactionData: TransactionData, requestId?: string, idempotencyKey?: string): Promise<TransactionSentMessage> {
+    return this.request({
+      type: 'process_transaction',
+      sessionId,
+      transactionData,
+      ...(requestId && { requestId }),
+      ...(idempotencyKey && { idempotencyKey })
+    }, 'transaction_sent');
+  }
+
+  closeSession(sessionId: string, reason?: string): Promise<SessionClosedMessage> {
+    return this.request({ type: 'close_session', sessionId, ...(reason && { reason }) }, 'session_closed');
+  }
+
+  ack(seq: number): void {
+    this.send({ type: 'bot_ack', seq, ...(this.queueEpoch && { queueEpoch: this.queueEpoch }) });
+  }
+
+  protected afterDispatch(message: BotMessage): void {
+    // Runs before any replayed notification is dispatched
+    if (message.type === 'bot_connected' && message.queueEpoch !== this.queueEpoch) {
+      this.queueEpoch = message.queueEpoch;
+      this.lastSeq = 0;
+      return;
+    }
+    if (!NOTIFICATION_TYPES.has(message.type as BotNotification['type'])) return;
+
+    const { seq } = message as BotNotification;
+    if (!seq) return;
+
+    this.lastSeq = Math.max(this.lastSeq, seq);
+    if (this.options.autoAck !== false) this.ack(seq);
+  }
+}
+
+export {
+  BotClientOptions,
+  CreateSessionParams,
+  CreateDisconnectSessionParams,
+  BotClient
+};
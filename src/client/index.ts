@@ -0,0 +1,6 @@
+// Client SDK for the wallet frontend and bots. The wallet client and protocol types have no
+// Node dependencies; import the bot client from './botClient' on the server side only.
+
+export * from '../protocol';
+export { WebSocketLike, SocketFactory, ClientOptions, ProtocolError } from './socketClient';
+export { TransactionResultParams, WalletClient } from './walletClient';
@@ -0,0 +1,162 @@
+import { ErrorCode, ErrorMessage, ValidationError } from '../protocol';
+
+// Shared plumbing for the bot and wallet clients. Works with the browser WebSocket or any
+// object with the same shape (for example the `ws` package in Node).
+
+interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+type SocketFactory = (url: string) => WebSocketLike;
+
+interface ClientOptions {
+  // Defaults to the global WebSocket constructor
+  createSocket?: SocketFactory;
+  // How long to wait for a reply before a request fails
+  requestTimeoutMs?: number;
+}
+
+// Error replied by the server, with field-level details for invalid messages and a code for
+// rejected operations (e.g. 'rate_limited')
+class ProtocolError extends Error {
+  readonly errors: ValidationError[];
+  readonly code?: ErrorCode;
+
+  constructor(message: ErrorMessage) {
+    super(message.message);
+    this.name = 'ProtocolError';
+    this.errors = message.errors || [];
+    this.code = message.code;
+  }
+}
+
+const OPEN = 1;
+const DEFAULT_REQUEST_TIMEOUT = 15 * 1000; // 15 seconds
+
+function defaultSocketFactory(url: string): WebSocketLike {
+  const WebSocketImpl = (globalThis as any).WebSocket;
+  if (!WebSocketImpl) {
+    throw new Error('No global WebSocket available, pass createSocket');
+  }
+  return new WebSocketImpl(url);
+}
+
+type Handler<M> = (message: M) => void;
+
+abstract class SocketClient<Outgoing extends { type: string }, Incoming extends { type: string }> {
+  protected socket: WebSocketLike | null = null;
+  private handlers = new Map<string, Handler<any>[]>();
+  private waiters: ((message: Incoming) => boolean)[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly createSocket: SocketFactory;
+  private readonly requestTimeout: number;
+
+  constructor(protected readonly url: string, options: ClientOptions = {}) {
+    this.createSocket = options.createSocket || defaultSocketFactory;
+    this.requestTimeout = options.requestTimeoutMs || DEFAULT_REQUEST_TIMEOUT;
+  }
+
+  // Open the socket and wait for the server's welcome message
+  protected open(): Promise<void> {
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.onmessage = event => this.dispatch(String(event.data));
+    socket.onclose = () => this.dispatchLocal('close');
+    socket.onerror = () => this.dispatchLocal('socket_error');
+
+    return this.waitFor('connected' as Incoming['type']).then(() => undefined);
+  }
+
+  on<T extends Incoming['type']>(type: T, handler: Handler<Extract<Incoming, { type: T }>>): this;
+  on(type: 'close' | 'socket_error', handler: Handler<void>): this;
+  on(type: string, handler: Handler<any>): this {
+    if (!this.handlers.has(type)) this.handlers.set(type, []);
+    this.handlers.get(type)!.push(handler);
+    return this;
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  protected send(message: Outgoing): void {
+    if (!this.socket || this.socket.readyState !== OPEN) {
+      throw new Error('Socket is not open');
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  // Send a message and wait for the reply of the given type. Requests are sent one at a time
+  // because replies carry no request ID.
+  protected request<T extends Incoming['type']>(message: Outgoing, replyType: T): Promise<Extract<Incoming, { type: T }>> {
+    const run = () => {
+      const reply = this.waitFor(replyType);
+      this.send(message);
+      return reply;
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  protected waitFor<T extends Incoming['type']>(type: T): Promise<Extract<Incoming, { type: T }>> {
+    return new Promise((resolve, reject) => {
+      const waiter = (message: Incoming): boolean => {
+        if (message.type === type) {
+          clearTimeout(timer);
+          resolve(message as Extract<Incoming, { type: T }>);
+          return true;
+        }
+        if (message.type === 'error') {
+          clearTimeout(timer);
+          reject(new ProtocolError(message as unknown as ErrorMessage));
+          return true;
+        }
+        return false;
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(new Error(`Timed out waiting for ${type}`));
+      }, this.requestTimeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Hook for subclasses to react to every message after handlers ran
+  protected afterDispatch(_message: Incoming): void {}
+
+  private dispatch(raw: string): void {
+    let message: Incoming;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const waiter = this.waiters.find(w => w(message));
+    if (waiter) this.waiters = this.waiters.filter(w => w !== waiter);
+
+    (this.handlers.get(message.type) || []).forEach(handler => handler(message));
+    this.afterDispatch(message);
+  }
+
+  private dispatchLocal(type: string): void {
+    (this.handlers.get(type) || []).forEach(handler => handler(undefined));
+  }
+}
+
+export {
+  WebSocketLike,
+  SocketFactory,
+  ClientOptions,
+  ProtocolError,
+  SocketClient
+};
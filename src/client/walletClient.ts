@@ -0,0 +1,97 @@
+import {
+  WalletMessage,
+  WalletRequest,
+  SessionInitializedMessage,
+  SessionResumedMessage,
+  WalletConnectionReceivedMessage,
+  WalletDisconnectionReceivedMessage,
+  TransactionResultReceivedMessage,
+  TransactionResultMessage,
+  SignedWalletMessage
+} from '../protocol';
+import { ClientOptions, SocketClient } from './socketClient';
+
+// Typed client for the wallet frontend. Uses the browser WebSocket by default; listen for
+// 'process_transaction' to receive transactions the bot wants signed. After the socket drops,
+// call reconnect() to take the session back; check pendingTransaction on the snapshot for a
+// request sent while the page was away. Have the wallet sign walletChallenge from the session
+// (NEP-413 signMessage) and pass the result to walletConnected.
+
+type TransactionResultParams = Omit<TransactionResultMessage, 'type' | 'sessionId'>;
+
+class WalletClient extends SocketClient<WalletRequest, WalletMessage> {
+  private sessionId: string | null = null;
+  private resumeSecret: string | null = null;
+
+  constructor(url: string, options: ClientOptions = {}) {
+    super(url, options);
+  }
+
+  connect(): Promise<void> {
+    return this.open();
+  }
+
+  // Redeem the session token from the wallet link
+  async initSession(token: string): Promise<SessionInitializedMessage> {
+    const session = await this.request({ type: 'init_session', token }, 'session_initialized');
+    this.sessionId = session.sessionId;
+    this.resumeSecret = session.resumeSecret;
+    return session;
+  }
+
+  // Take over a session from a previous connection, e.g. after a page reload
+  async resumeSession(sessionId: string, resumeSecret: string): Promise<SessionResumedMessage> {
+    const snapshot = await this.request({ type: 'resume_session', sessionId, resumeSecret }, 'session_resumed');
+    this.sessionId = snapshot.sessionId;
+    this.resumeSecret = snapshot.resumeSecret;
+    return snapshot;
+  }
+
+  // Open a new socket and resume the session this client was attached to
+  async reconnect(): Promise<SessionResumedMessage> {
+    if (!this.sessionId || !this.resumeSecret) throw new Error('initSession must be called first');
+    await this.open();
+    return this.resumeSession(this.sessionId, this.resumeSecret);
+  }
+
+  // Credentials to persist (e.g. in sessionStorage) for resumeSession after a reload
+  get resumeCredentials(): { sessionId: string; resumeSecret: string } | null {
+    return this.sessionId && this.resumeSecret ? { sessionId: this.sessionId, resumeSecret: this.resumeSecret } : null;
+  }
+
+  walletConnected(walletId: string, txnLink?: string, signedMessage?: SignedWalletMessage): Promise<WalletConnectionReceivedMessage> {
+    return this.request({
+      type: 'wallet_connected',
+      sessionId: this.requireSession(),
+      walletId,
+      ...(txnLink !== undefined && { txnLink }),
+      ...(signedMessage && { signedMessage })
+    }, 'wallet_connection_received');
+  }
+
+  walletDisconnected(reason?: string): Promise<WalletDisconnectionReceivedMessage> {
+    return this.request({
+      type: 'wallet_disconnected',
+      sessionId: this.requireSession(),
+      ...(reason && { reason })
+    }, 'wallet_disconnection_received');
+  }
+
+  transactionResult(result: TransactionResultParams): Promise<TransactionResultReceivedMessage> {
+    return this.request({
+      type: 'transaction_result',
+      sessionId: this.requireSession(),
+      ...result
+    }, 'transaction_result_received');
+  }
+
+  private requireSession(): string {
+    if (!this.sessionId) throw new Error('initSession must be called first');
+    return this.sessionId;
+  }
+}
+
+export {
+  TransactionResultParams,
+  WalletClient
+};
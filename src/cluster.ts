@@ -0,0 +1,445 @@
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { Session } from './types';
+import { BotNotification, OutboundMessage } from './protocol';
+import { SessionStore, reviveSession } from './sessionStore';
+import { ClusterConfig } from './config';
+import { Logger, logger } from './logger';
+
+// Cluster adapter
+//
+// Sessions, frontend sockets and bot sockets live in the memory of the instance that accepted
+// them. To run several instances behind a load balancer they exchange messages through a
+// ClusterAdapter:
+//   session_updated / session_deleted  every session change is replicated, so any instance can
+//                                      look up any session
+//   frontend_message                   a message for a session's frontend, sent by whichever
+//                                      instance holds its socket
+//   frontend_attached                  a frontend (re)attached elsewhere; older sockets for the
+//                                      session are closed
+//   bot_presence                       an instance gained its first or lost its last connection
+//                                      for a bot; queued notifications follow the bot
+//   bot_notification                   a notification for a bot connected to another instance
+//   bot_disconnect                     an administrator disconnected a bot everywhere
+//   instance_started                   asks the other instances to announce their bots and
+//                                      publish every session they hold
+//   instance_alive / instance_stopped  membership for electing the session sweeper
+//
+// CLUSTER_ADAPTER picks the transport: "none" (a single instance), "memory" (in-process, for
+// tests and for several servers embedded in one process) or "redis" (pub/sub over
+// CLUSTER_REDIS_URL on any server that speaks the Redis protocol).
+//
+// Messages are fire-and-forget. Every replicated session carries a revision that each write
+// increments; an update older than the local copy is ignored, and two writes of the same
+// revision are settled in favour of the higher instance ID, so every instance ends up with the
+// same copy. Timeouts and cleanup run on one instance only, the sweeper: the instance with the
+// lowest ID among those heard from recently. Bot queue sequence numbers are per instance: when
+// a bot moves to another instance, notifications still queued for it elsewhere are forwarded
+// and renumbered there.
+
+type ClusterMessage =
+  | { type: 'session_updated'; session: Session; revision?: number }
+  | { type: 'session_deleted'; sessionId: string }
+  | { type: 'frontend_message'; sessionId: string; message: OutboundMessage }
+  | { type: 'frontend_attached'; sessionId: string }
+  | { type: 'bot_presence'; botId: string; connected: boolean }
+  // `to` is the instance holding the bot, or null to reach every bot (unowned sessions)
+  | { type: 'bot_notification'; to: string | null; botId?: string; message: BotNotification }
+  | { type: 'bot_disconnect'; botId: string }
+  | { type: 'instance_started' }
+  | { type: 'instance_alive' }
+  | { type: 'instance_stopped' };
+
+interface ClusterEnvelope {
+  from: string;
+  message: ClusterMessage;
+}
+
+type ClusterHandler = (message: ClusterMessage, from: string) => void;
+
+interface ClusterAdapter {
+  readonly instanceId: string;
+  // Send to every other instance; an instance never receives its own messages
+  publish(message: ClusterMessage): void;
+  subscribe(handler: ClusterHandler): void;
+  close(): Promise<void>;
+}
+
+// Decode a published envelope. Sessions arrive as plain JSON and are turned back into Sessions.
+function decodeEnvelope(raw: string): ClusterEnvelope | null {
+  try {
+    const envelope = JSON.parse(raw);
+    if (!envelope || typeof envelope.from !== 'string' || !envelope.message || typeof envelope.message.type !== 'string') {
+      return null;
+    }
+    if (envelope.message.type === 'session_updated') {
+      envelope.message.session = reviveSession(envelope.message.session);
+    }
+    return envelope;
+  } catch {
+    return null;
+  }
+}
+
+// In-process transport. Every adapter joined to the same bus sees the others' messages.
+// Messages are serialized and delivered asynchronously, like they would be over the network.
+class InProcessClusterBus {
+  private members = new Set<InProcessClusterAdapter>();
+
+  join(instanceId: string = uuidv4()): ClusterAdapter {
+    const adapter = new InProcessClusterAdapter(instanceId, this);
+    this.members.add(adapter);
+    return adapter;
+  }
+
+  leave(adapter: InProcessClusterAdapter): void {
+    this.members.delete(adapter);
+  }
+
+  broadcast(raw: string, sender: InProcessClusterAdapter): void {
+    this.members.forEach(member => {
+      if (member !== sender) setImmediate(() => member.receive(raw));
+    });
+  }
+}
+
+class InProcessClusterAdapter implements ClusterAdapter {
+  private handlers: ClusterHandler[] = [];
+
+  constructor(readonly instanceId: string, private readonly bus: InProcessClusterBus) {}
+
+  publish(message: ClusterMessage): void {
+    this.bus.broadcast(JSON.stringify({ from: this.instanceId, message }), this);
+  }
+
+  subscribe(handler: ClusterHandler): void {
+    this.handlers.push(handler);
+  }
+
+  receive(raw: string): void {
+    const envelope = decodeEnvelope(raw);
+    if (envelope) this.handlers.forEach(handler => handler(envelope.message, envelope.from));
+  }
+
+  async close(): Promise<void> {
+    this.bus.leave(this);
+  }
+}
+
+type RespValue = string | number | null | RespValue[] | Error;
+
+// Parse one RESP reply from `buffer` at `offset`; null when the reply is not complete yet
+function parseResp(buffer: Buffer, offset: number): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new Error(line), next: afterLine };
+    case ':':
+      return { value: Number(line), next: afterLine };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, next);
+        if (!item) return null;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new Error(`Unexpected Redis protocol reply prefix ${JSON.stringify(prefix)}`);
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+// A Redis protocol connection that reconnects with backoff and buffers commands while down.
+// `setup` commands (AUTH, SUBSCRIBE) are sent again after every reconnect.
+class RespConnection {
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private closed = false;
+  private buffer = Buffer.alloc(0);
+  private queued: string[] = [];
+  private reconnectDelay: number;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly url: URL,
+    private readonly config: ClusterConfig,
+    private readonly setup: string[][],
+    private readonly onReply: (reply: RespValue) => void,
+    private readonly log: Logger = logger
+  ) {
+    this.reconnectDelay = config.reconnectMinDelayMs;
+    this.connect();
+  }
+
+  send(args: string[]): void {
+    const command = encodeCommand(args);
+    if (this.connected && this.socket) {
+      this.socket.write(command);
+    } else if (this.queued.length < this.config.maxBufferedCommands) {
+      this.queued.push(command);
+    } else {
+      this.log.warn('Cluster connection down and buffer full, dropping command', { connection: this.name });
+    }
+  }
+
+  close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    return new Promise(resolve => {
+      if (!this.socket || this.socket.destroyed) return resolve();
+      this.socket.once('close', () => resolve());
+      this.socket.end(encodeCommand(['QUIT']));
+    });
+  }
+
+  private connect(): void {
+    const socket = net.createConnection({ host: this.url.hostname, port: Number(this.url.port) || 6379 });
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      this.connected = true;
+      this.reconnectDelay = this.config.reconnectMinDelayMs;
+      this.buffer = Buffer.alloc(0);
+      this.log.info('Cluster connection established', { connection: this.name, host: this.url.host });
+
+      this.setup.forEach(args => socket.write(encodeCommand(args)));
+      this.queued.forEach(command => socket.write(command));
+      this.queued = [];
+    });
+
+    socket.on('data', chunk => this.read(chunk));
+
+    socket.on('error', error => {
+      this.log.warn('Cluster connection error', { connection: this.name, error });
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.socket = null;
+      if (this.closed) return;
+
+      this.log.warn('Cluster connection lost, reconnecting', { connection: this.name, delayMs: this.reconnectDelay });
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.config.reconnectMaxDelayMs);
+    });
+  }
+
+  private read(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    try {
+      for (let reply = parseResp(this.buffer, offset); reply; reply = parseResp(this.buffer, offset)) {
+        offset = reply.next;
+        this.onReply(reply.value);
+      }
+    } catch (error) {
+      this.log.error('Unreadable reply on cluster connection', { connection: this.name, error });
+      this.socket?.destroy();
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
+
+// Pub/sub over a Redis-protocol server: one connection publishes, one subscribes
+class RedisClusterAdapter implements ClusterAdapter {
+  readonly instanceId: string;
+  private readonly channel: string;
+  private handlers: ClusterHandler[] = [];
+  private publisher: RespConnection;
+  private subscriber: RespConnection;
+
+  constructor(config: ClusterConfig, private readonly log: Logger = logger) {
+    this.instanceId = config.instanceId;
+    this.channel = config.channel;
+    const parsed = new URL(config.redisUrl);
+    const auth = parsed.password
+      ? [parsed.username ? ['AUTH', decodeURIComponent(parsed.username), decodeURIComponent(parsed.password)] : ['AUTH', decodeURIComponent(parsed.password)]]
+      : [];
+
+    this.publisher = new RespConnection('publisher', parsed, config, auth, reply => {
+      if (reply instanceof Error) log.error('Cluster publish failed', { error: reply });
+    }, log);
+    this.subscriber = new RespConnection('subscriber', parsed, config, [...auth, ['SUBSCRIBE', config.channel]], reply => this.receive(reply), log);
+  }
+
+  publish(message: ClusterMessage): void {
+    this.publisher.send(['PUBLISH', this.channel, JSON.stringify({ from: this.instanceId, message })]);
+  }
+
+  subscribe(handler: ClusterHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.publisher.close(), this.subscriber.close()]);
+  }
+
+  private receive(reply: RespValue): void {
+    if (reply instanceof Error) {
+      this.log.error('Cluster subscription failed', { error: reply });
+      return;
+    }
+    if (!Array.isArray(reply) || reply[0] !== 'message' || reply[1] !== this.channel || typeof reply[2] !== 'string') {
+      return;
+    }
+
+    const envelope = decodeEnvelope(reply[2]);
+    if (!envelope || envelope.from === this.instanceId) return;
+    this.handlers.forEach(handler => handler(envelope.message, envelope.from));
+  }
+}
+
+// Session store that publishes every change and applies changes made by other instances
+class ReplicatedSessionStore implements SessionStore {
+  // Revision of each session's local copy and the instance that wrote it
+  private revisions = new Map<string, { revision: number; writer: string }>();
+
+  constructor(private readonly local: SessionStore, private readonly cluster: ClusterAdapter) {}
+
+  get size(): number {
+    return this.local.size;
+  }
+
+  get(sessionId: string): Session | undefined {
+    return this.local.get(sessionId);
+  }
+
+  set(sessionId: string, session: Session): void {
+    const revision = (this.revisions.get(sessionId)?.revision || 0) + 1;
+    this.revisions.set(sessionId, { revision, writer: this.cluster.instanceId });
+    this.local.set(sessionId, session);
+    this.cluster.publish({ type: 'session_updated', session, revision });
+  }
+
+  delete(sessionId: string): void {
+    if (!this.local.get(sessionId)) return;
+    this.revisions.delete(sessionId);
+    this.local.delete(sessionId);
+    this.cluster.publish({ type: 'session_deleted', sessionId });
+  }
+
+  revision(sessionId: string): number {
+    return this.revisions.get(sessionId)?.revision || 0;
+  }
+
+  values(): Session[] {
+    return this.local.values();
+  }
+
+  // Publish every local session at its current revision, for an instance that joined later.
+  // Sessions restored from the file store have revision 0, so a newer replicated copy wins.
+  publishSnapshot(): void {
+    this.local.values().forEach(session =>
+      this.cluster.publish({ type: 'session_updated', session, revision: this.revision(session.sessionId) })
+    );
+  }
+
+  // Apply a replicated change without publishing it again. Returns false for a stale update.
+  applyRemote(message: ClusterMessage, from: string): boolean {
+    if (message.type === 'session_updated') {
+      const { sessionId } = message.session;
+      const current = this.revisions.get(sessionId);
+      const revision = message.revision || 0;
+      if (current && (revision < current.revision || (revision === current.revision && from < current.writer))) {
+        return false;
+      }
+      this.revisions.set(sessionId, { revision, writer: from });
+      this.local.set(sessionId, message.session);
+    } else if (message.type === 'session_deleted') {
+      this.revisions.delete(message.sessionId);
+      this.local.delete(message.sessionId);
+    }
+    return true;
+  }
+}
+
+// Picks the instance that runs the session sweeps. Instances announce themselves regularly and
+// any message counts as a sign of life; the lowest instance ID heard from within staleAfterMs
+// (this one included) is the sweeper. A stopping instance says so, so the next one takes over
+// on its following tick.
+class SweeperElection {
+  private lastSeen = new Map<string, number>();
+
+  constructor(private readonly cluster: ClusterAdapter, private readonly staleAfterMs: number) {}
+
+  announce(): void {
+    this.cluster.publish({ type: 'instance_alive' });
+  }
+
+  seen(instanceId: string): void {
+    this.lastSeen.set(instanceId, Date.now());
+  }
+
+  leave(): void {
+    this.cluster.publish({ type: 'instance_stopped' });
+  }
+
+  left(instanceId: string): void {
+    this.lastSeen.delete(instanceId);
+  }
+
+  isSweeper(): boolean {
+    const cutoff = Date.now() - this.staleAfterMs;
+    this.lastSeen.forEach((seenAt, instanceId) => {
+      if (seenAt < cutoff) this.lastSeen.delete(instanceId);
+    });
+    return Array.from(this.lastSeen.keys()).every(instanceId => instanceId > this.cluster.instanceId);
+  }
+}
+
+// Bus used by CLUSTER_ADAPTER=memory
+const defaultBus = new InProcessClusterBus();
+
+// The configured adapter, or null for a single instance
+function createClusterAdapter(config: ClusterConfig, log: Logger = logger): ClusterAdapter | null {
+  switch (config.adapter) {
+    case 'memory':
+      return defaultBus.join(config.instanceId);
+    case 'redis':
+      return new RedisClusterAdapter(config, log);
+    default:
+      return null;
+  }
+}
+
+export {
+  ClusterMessage,
+  ClusterHandler,
+  ClusterAdapter,
+  InProcessClusterBus,
+  RedisClusterAdapter,
+  ReplicatedSessionStore,
+  SweeperElection,
+  parseResp,
+  encodeCommand,
+  createClusterAdapter
+};
@@ -0,0 +1,481 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { SessionStatus } from './types';
+import { HeartbeatConfig } from './heartbeat';
+import { LimitsConfig } from './limits';
+import { WebhookConfig } from './webhooks';
+import { LifecycleEventName, LIFECYCLE_EVENTS } from './events';
+import { LedgerConfig } from './ledger';
+import { IdempotencyConfig } from './idempotency';
+import { LoggingConfig, LogLevel, LOG_LEVELS, DEFAULT_REDACTED_FIELDS } from './logger';
+
+// Configuration
+//
+// Every setting is read once at startup, validated and exposed as a typed object. Values come
+// from, in order of precedence:
+//   1. environment variables (a .env file in the working directory is loaded first)
+//   2. the JSON file named by CONFIG_FILE, using the nested keys of Config below
+//      (e.g. { "sessions": { "tokenTtlMs": 600000 }, "corsOrigins": ["https://app.example"] })
+//   3. the defaults in this file
+// Lists are comma-separated in the environment and arrays in the file. All durations are in
+// milliseconds. Invalid values stop the server with one error listing every problem.
+
+type TimedStatus = 'created' | 'connected' | 'wallet_connected' | 'tx_pending';
+
+interface SessionConfig {
+  store: 'memory' | 'file';
+  storePath: string;
+  // Without a secret each server instance signs tokens with a random key of its own
+  tokenSecret: string | null;
+  tokenTtlMs: number;
+  // Time allowed in each state before the session expires
+  timeouts: Record<TimedStatus, number>;
+  // Lifetime of a multi-transaction session whose bot did not ask for one
+  multiSessionDefaultLifetimeMs: number;
+  multiSessionMaxLifetimeMs: number;
+  // One-shot sessions are dropped by the cleanup sweep once they are this old
+  maxAgeMs: number;
+  // How long finished sessions stay around so late messages still find them
+  resultCleanupDelayMs: number;
+  disconnectCleanupDelayMs: number;
+}
+
+interface IntervalConfig {
+  timeoutCheckMs: number;
+  cleanupMs: number;
+  queuePruneMs: number;
+  statsLogMs: number;
+}
+
+interface BotAuthConfig {
+  keys: string | null;
+  keysFile: string | null;
+  // Bot IDs each key may act as besides its own key ID ("keyId:botA|botB,...")
+  keyBots: string | null;
+  challengeTtlMs: number;
+  requestMaxSkewMs: number;
+}
+
+interface BotQueueConfig {
+  maxDepth: number;
+  ttlMs: number;
+  store: 'memory' | 'file';
+  path: string;
+  // How long queue changes are batched before they are written to path
+  flushMs: number;
+}
+
+interface NearConfig {
+  rpcUrl: string;
+}
+
+interface WalletProofConfig {
+  // Reject wallet_connected without a signed challenge; when false such wallets reach the bot
+  // with verified: false
+  required: boolean;
+  // NEP-413 message and recipient the wallet signs along with the session's nonce
+  message: string;
+  recipient: string;
+  // Also confirm over RPC that the signing key is a full-access key of the account
+  checkAccessKey: boolean;
+  rpcUrl: string;
+}
+
+interface ShutdownConfig {
+  // Longest a graceful shutdown waits for transactions already sent to a wallet
+  gracePeriodMs: number;
+  // Sent to clients as the time to wait before reconnecting
+  reconnectAfterMs: number;
+}
+
+interface ClusterConfig {
+  adapter: 'none' | 'memory' | 'redis';
+  redisUrl: string;
+  channel: string;
+  // Identifies this instance in cluster messages; random per process unless set
+  instanceId: string;
+  // Redis reconnect backoff, doubling from min to max
+  reconnectMinDelayMs: number;
+  reconnectMaxDelayMs: number;
+  // Commands kept per connection while Redis is unreachable; later ones are dropped
+  maxBufferedCommands: number;
+  // Announcements (one per TIMEOUT_CHECK_INTERVAL_MS) an instance may miss before another
+  // instance takes over the session sweeps
+  sweeperMaxMissed: number;
+}
+
+interface Config {
+  port: number;
+  // Origins allowed to open WebSocket connections; '*' allows any. Required with
+  // NODE_ENV=production, elsewhere an empty list allows any for local development.
+  allowedOrigins: string[];
+  // Origins allowed to call the HTTP routes from a browser; '*' allows any. Defaults to '*'
+  // outside production and to none with NODE_ENV=production.
+  corsOrigins: string[];
+  sessions: SessionConfig;
+  intervals: IntervalConfig;
+  heartbeat: HeartbeatConfig;
+  limits: LimitsConfig;
+  botAuth: BotAuthConfig;
+  botQueue: BotQueueConfig;
+  ledger: LedgerConfig;
+  idempotency: IdempotencyConfig;
+  // null when no webhook URLs are configured
+  webhooks: WebhookConfig | null;
+  near: NearConfig;
+  walletProof: WalletProofConfig;
+  logging: LoggingConfig;
+  cluster: ClusterConfig;
+  shutdown: ShutdownConfig;
+  admin: {
+    // Bearer token for /admin; the admin API is off without one
+    token: string | null;
+  };
+}
+
+class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+type Env = Record<string, string | undefined>;
+
+interface RawValue {
+  value: unknown;
+  source: string;
+}
+
+// Reads settings from the environment or the config file and collects every problem
+class ConfigReader {
+  readonly problems: string[] = [];
+
+  constructor(private readonly env: Env, private readonly file: Record<string, unknown>, private readonly fileName: string) {}
+
+  integer(envName: string, key: string, fallback: number, min: number = 0): number {
+    const raw = this.raw(envName, key);
+    if (!raw) return fallback;
+
+    const value = typeof raw.value === 'string' && /^-?\d+$/.test(raw.value.trim()) ? Number(raw.value) : raw.value;
+    if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < min) {
+      return this.invalid(raw, `an integer >= ${min}`, fallback);
+    }
+    return value;
+  }
+
+  string(envName: string, key: string, fallback: string): string {
+    return this.optionalString(envName, key) ?? fallback;
+  }
+
+  optionalString(envName: string, key: string): string | null {
+    const raw = this.raw(envName, key);
+    if (!raw) return null;
+    if (typeof raw.value !== 'string') return this.invalid(raw, 'a string', null);
+    return raw.value;
+  }
+
+  boolean(envName: string, key: string, fallback: boolean): boolean {
+    const raw = this.raw(envName, key);
+    if (!raw) return fallback;
+    if (typeof raw.value === 'boolean') return raw.value;
+    if (raw.value === 'true' || raw.value === '1') return true;
+    if (raw.value === 'false' || raw.value === '0') return false;
+    return this.invalid(raw, 'true or false', fallback);
+  }
+
+  list(envName: string, key: string, fallback: string[]): string[] {
+    const raw = this.raw(envName, key);
+    if (!raw) return fallback;
+    if (typeof raw.value === 'string') {
+      return raw.value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (Array.isArray(raw.value) && raw.value.every(item => typeof item === 'string')) {
+      return raw.value;
+    }
+    return this.invalid(raw, 'a comma-separated list', fallback);
+  }
+
+  oneOf<T extends string>(envName: string, key: string, options: T[], fallback: T): T {
+    const raw = this.raw(envName, key);
+    if (!raw) return fallback;
+    if (!options.includes(raw.value as T)) return this.invalid(raw, `one of ${options.join(', ')}`, fallback);
+    return raw.value as T;
+  }
+
+  problem(message: string): void {
+    this.problems.push(message);
+  }
+
+  private raw(envName: string, key: string): RawValue | undefined {
+    const envValue = this.env[envName];
+    if (envValue !== undefined && envValue !== '') {
+      return { value: envValue, source: envName };
+    }
+
+    const fileValue = key.split('.').reduce<unknown>(
+      (node, part) => node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined,
+      this.file
+    );
+    if (fileValue !== undefined && fileValue !== null) {
+      return { value: fileValue, source: `${key} in ${this.fileName}` };
+    }
+    return undefined;
+  }
+
+  private invalid<T>(raw: RawValue, expected: string, fallback: T): T {
+    this.problems.push(`${raw.source}: expected ${expected}, got ${JSON.stringify(raw.value)}`);
+    return fallback;
+  }
+}
+
+function readConfigFile(fileName: string | undefined, problems: string[]): Record<string, unknown> {
+  if (!fileName) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      problems.push(`CONFIG_FILE ${fileName}: expected a JSON object`);
+      return {};
+    }
+    return parsed;
+  } catch (error) {
+    problems.push(`CONFIG_FILE ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+function isUrl(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// An origin is scheme://host[:port] with nothing after it
+function isOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+function readWebhooks(reader: ConfigReader): WebhookConfig | null {
+  const urls = reader.list('WEBHOOK_URLS', 'webhooks.urls', []);
+  const secret = reader.optionalString('WEBHOOK_SECRET', 'webhooks.secret');
+  const events = reader.list('WEBHOOK_EVENTS', 'webhooks.events', LIFECYCLE_EVENTS) as LifecycleEventName[];
+  const maxAttempts = reader.integer('WEBHOOK_MAX_ATTEMPTS', 'webhooks.maxAttempts', 5, 1);
+  const baseDelayMs = reader.integer('WEBHOOK_RETRY_DELAY_MS', 'webhooks.baseDelayMs', 1 * SECOND);
+  const timeoutMs = reader.integer('WEBHOOK_TIMEOUT_MS', 'webhooks.timeoutMs', 10 * SECOND, 1);
+  const deadLetterPath = reader.string('WEBHOOK_DEAD_LETTER_PATH', 'webhooks.deadLetterPath', path.join('data', 'webhook-dead-letter.log'));
+
+  if (urls.length === 0) return null;
+
+  urls.filter(url => !isUrl(url, ['http:', 'https:'])).forEach(url => reader.problem(`WEBHOOK_URLS: ${JSON.stringify(url)} is not an http(s) URL`));
+  if (!secret) {
+    reader.problem('WEBHOOK_SECRET is required when WEBHOOK_URLS is set');
+  }
+  const unknown = events.filter(event => !LIFECYCLE_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    reader.problem(`WEBHOOK_EVENTS: unknown event(s) ${unknown.join(', ')}; expected ${LIFECYCLE_EVENTS.join(', ')}`);
+  }
+
+  return { urls, secret: secret || '', events, maxAttempts, baseDelayMs, timeoutMs, deadLetterPath };
+}
+
+function readLogging(reader: ConfigReader, env: Env): LoggingConfig {
+  const redact = reader.list('LOG_REDACT', 'logging.redact', DEFAULT_REDACTED_FIELDS);
+  return {
+    level: reader.oneOf<LogLevel>('LOG_LEVEL', 'logging.level', LOG_LEVELS, 'info'),
+    format: reader.oneOf('LOG_FORMAT', 'logging.format', ['json', 'pretty'], env.NODE_ENV === 'production' ? 'json' : 'pretty'),
+    redact: redact.length === 1 && redact[0] === 'none' ? [] : redact
+  };
+}
+
+// Build and validate the configuration. Throws ConfigError listing every invalid setting.
+function loadConfig(env: Env = process.env): Config {
+  if (env === process.env) dotenv.config();
+
+  const problems: string[] = [];
+  const fileName = env.CONFIG_FILE;
+  const reader = new ConfigReader(env, readConfigFile(fileName, problems), fileName || '');
+
+  const timeout = (status: TimedStatus, fallback: number) =>
+    reader.integer(`SESSION_TIMEOUT_${status.toUpperCase()}_MS`, `sessions.timeouts.${status}`, fallback, 1);
+  const nearRpcUrl = reader.string('NEAR_RPC_URL', 'near.rpcUrl', 'https://rpc.mainnet.near.org');
+  const production = env.NODE_ENV === 'production';
+
+  const config: Config = {
+    port: reader.integer('PORT', 'port', 3001, 1),
+    allowedOrigins: reader.list('ALLOWED_ORIGINS', 'allowedOrigins', []),
+    corsOrigins: reader.list('CORS_ORIGINS', 'corsOrigins', production ? [] : ['*']),
+    sessions: {
+      store: reader.oneOf('SESSION_STORE', 'sessions.store', ['memory', 'file'], 'file'),
+      storePath: reader.string('SESSION_STORE_PATH', 'sessions.storePath', path.join('data', 'sessions.log')),
+      tokenSecret: reader.optionalString('SESSION_TOKEN_SECRET', 'sessions.tokenSecret'),
+      tokenTtlMs: reader.integer('SESSION_TOKEN_TTL_MS', 'sessions.tokenTtlMs', HOUR, 1),
+      timeouts: {
+        created: timeout('created', 10 * MINUTE), // to open the link
+        connected: timeout('connected', 10 * MINUTE), // to connect a wallet
+        wallet_connected: timeout('wallet_connected', 15 * MINUTE), // until a transaction is requested or signed
+        tx_pending: timeout('tx_pending', 3 * MINUTE) // to sign
+      },
+      multiSessionDefaultLifetimeMs: reader.integer('MULTI_SESSION_DEFAULT_LIFETIME_MS', 'sessions.multiSessionDefaultLifetimeMs', HOUR, 1),
+      multiSessionMaxLifetimeMs: reader.integer('MULTI_SESSION_MAX_LIFETIME_MS', 'sessions.multiSessionMaxLifetimeMs', 24 * HOUR, 1),
+      maxAgeMs: reader.integer('SESSION_MAX_AGE_MS', 'sessions.maxAgeMs', HOUR, 1),
+      resultCleanupDelayMs: reader.integer('SESSION_RESULT_CLEANUP_DELAY_MS', 'sessions.resultCleanupDelayMs', 30 * SECOND),
+      disconnectCleanupDelayMs: reader.integer('SESSION_DISCONNECT_CLEANUP_DELAY_MS', 'sessions.disconnectCleanupDelayMs', 10 * SECOND)
+    },
+    intervals: {
+      timeoutCheckMs: reader.integer('TIMEOUT_CHECK_INTERVAL_MS', 'intervals.timeoutCheckMs', 5 * SECOND, 100),
+      cleanupMs: reader.integer('CLEANUP_INTERVAL_MS', 'intervals.cleanupMs', 5 * MINUTE, 1000),
+      queuePruneMs: reader.integer('QUEUE_PRUNE_INTERVAL_MS', 'intervals.queuePruneMs', 5 * MINUTE, 1000),
+      statsLogMs: reader.integer('STATS_LOG_INTERVAL_MS', 'intervals.statsLogMs', 10 * MINUTE, 1000)
+    },
+    heartbeat: {
+      intervalMs: reader.integer('HEARTBEAT_INTERVAL_MS', 'heartbeat.intervalMs', 30 * SECOND),
+      maxMissed: reader.integer('HEARTBEAT_MAX_MISSED', 'heartbeat.maxMissed', 2, 1)
+    },
+    limits: {
+      maxConnectionsPerIp: reader.integer('MAX_CONNECTIONS_PER_IP', 'limits.maxConnectionsPerIp', 20),
+      maxMessagesPerSecond: reader.integer('MAX_MESSAGES_PER_SECOND', 'limits.maxMessagesPerSecond', 20),
+      maxPayloadBytes: reader.integer('MAX_PAYLOAD_BYTES', 'limits.maxPayloadBytes', 64 * 1024),
+      maxSessionsPerUser: reader.integer('MAX_SESSIONS_PER_USER', 'limits.maxSessionsPerUser', 5),
+      maxSessionsPerBot: reader.integer('MAX_SESSIONS_PER_BOT', 'limits.maxSessionsPerBot', 10000),
+      maxSessions: reader.integer('MAX_SESSIONS', 'limits.maxSessions', 50000),
+      trustProxy: reader.boolean('TRUST_PROXY', 'limits.trustProxy', false),
+      trustProxyHops: reader.integer('TRUST_PROXY_HOPS', 'limits.trustProxyHops', 1, 1)
+    },
+    botAuth: {
+      keys: reader.optionalString('BOT_AUTH_KEYS', 'botAuth.keys'),
+      keysFile: reader.optionalString('BOT_AUTH_KEYS_FILE', 'botAuth.keysFile'),
+      keyBots: reader.optionalString('BOT_AUTH_KEY_BOTS', 'botAuth.keyBots'),
+      challengeTtlMs: reader.integer('BOT_CHALLENGE_TTL_MS', 'botAuth.challengeTtlMs', 30 * SECOND, 1),
+      requestMaxSkewMs: reader.integer('BOT_REQUEST_MAX_SKEW_MS', 'botAuth.requestMaxSkewMs', 5 * MINUTE, 1)
+    },
+    botQueue: {
+      maxDepth: reader.integer('BOT_QUEUE_MAX_DEPTH', 'botQueue.maxDepth', 1000, 1),
+      ttlMs: reader.integer('BOT_QUEUE_TTL_MS', 'botQueue.ttlMs', 24 * HOUR, 1),
+      store: reader.oneOf('BOT_QUEUE_STORE', 'botQueue.store', ['memory', 'file'], 'file'),
+      path: reader.string('BOT_QUEUE_PATH', 'botQueue.path', path.join('data', 'bot-queue.json')),
+      flushMs: reader.integer('BOT_QUEUE_FLUSH_MS', 'botQueue.flushMs', 200, 0)
+    },
+    ledger: {
+      store: reader.oneOf('LEDGER_STORE', 'ledger.store', ['memory', 'file'], 'file'),
+      path: reader.string('LEDGER_PATH', 'ledger.path', path.join('data', 'ledger.log'))
+    },
+    idempotency: {
+      ttlMs: reader.integer('IDEMPOTENCY_TTL_MS', 'idempotency.ttlMs', HOUR, 1)
+    },
+    webhooks: readWebhooks(reader),
+    near: {
+      rpcUrl: nearRpcUrl
+    },
+    walletProof: {
+      required: reader.boolean('WALLET_PROOF_REQUIRED', 'walletProof.required', true),
+      message: reader.string('WALLET_PROOF_MESSAGE', 'walletProof.message', 'Connect your wallet'),
+      recipient: reader.string('WALLET_PROOF_RECIPIENT', 'walletProof.recipient', 'trsocket'),
+      checkAccessKey: reader.boolean('WALLET_PROOF_CHECK_ACCESS_KEY', 'walletProof.checkAccessKey', true),
+      // Defaults to NEAR_RPC_URL; point it at a local mock in development
+      rpcUrl: reader.string('WALLET_PROOF_RPC_URL', 'walletProof.rpcUrl', nearRpcUrl)
+    },
+    logging: readLogging(reader, env),
+    cluster: {
+      adapter: reader.oneOf('CLUSTER_ADAPTER', 'cluster.adapter', ['none', 'memory', 'redis'], 'none'),
+      redisUrl: reader.string('CLUSTER_REDIS_URL', 'cluster.redisUrl', 'redis://127.0.0.1:6379'),
+      channel: reader.string('CLUSTER_CHANNEL', 'cluster.channel', 'trsocket'),
+      instanceId: reader.string('CLUSTER_INSTANCE_ID', 'cluster.instanceId', uuidv4()),
+      reconnectMinDelayMs: reader.integer('CLUSTER_RECONNECT_MIN_DELAY_MS', 'cluster.reconnectMinDelayMs', 500, 1),
+      reconnectMaxDelayMs: reader.integer('CLUSTER_RECONNECT_MAX_DELAY_MS', 'cluster.reconnectMaxDelayMs', 30 * SECOND, 1),
+      maxBufferedCommands: reader.integer('CLUSTER_MAX_BUFFERED_COMMANDS', 'cluster.maxBufferedCommands', 10000),
+      sweeperMaxMissed: reader.integer('CLUSTER_SWEEPER_MAX_MISSED', 'cluster.sweeperMaxMissed', 3, 2)
+    },
+    shutdown: {
+      // Fits inside the usual 30 s a container orchestrator waits before killing the process
+      gracePeriodMs: reader.integer('SHUTDOWN_GRACE_PERIOD_MS', 'shutdown.gracePeriodMs', 25 * SECOND),
+      reconnectAfterMs: reader.integer('SHUTDOWN_RECONNECT_AFTER_MS', 'shutdown.reconnectAfterMs', 5 * SECOND)
+    },
+    admin: {
+      token: reader.optionalString('ADMIN_TOKEN', 'admin.token')
+    }
+  };
+
+  if (config.port > 65535) {
+    reader.problem(`PORT: expected a port number up to 65535, got ${config.port}`);
+  }
+  config.allowedOrigins.filter(origin => origin !== '*' && !isOrigin(origin)).forEach(origin =>
+    reader.problem(`ALLOWED_ORIGINS: ${JSON.stringify(origin)} is not '*' or an origin like https://app.example.com`)
+  );
+  if (production && config.allowedOrigins.length === 0) {
+    reader.problem(`ALLOWED_ORIGINS is required with NODE_ENV=production (the wallet frontend's origin, or '*' to allow any)`);
+  }
+  config.corsOrigins.filter(origin => origin !== '*' && !isOrigin(origin)).forEach(origin =>
+    reader.problem(`CORS_ORIGINS: ${JSON.stringify(origin)} is not '*' or an origin like https://app.example.com`)
+  );
+  if (!isUrl(config.near.rpcUrl, ['http:', 'https:'])) {
+    reader.problem(`NEAR_RPC_URL: ${JSON.stringify(config.near.rpcUrl)} is not an http(s) URL`);
+  }
+  if (config.walletProof.checkAccessKey && !isUrl(config.walletProof.rpcUrl, ['http:', 'https:'])) {
+    reader.problem(`WALLET_PROOF_RPC_URL: ${JSON.stringify(config.walletProof.rpcUrl)} is not an http(s) URL`);
+  }
+  if (config.cluster.adapter === 'redis' && !isUrl(config.cluster.redisUrl, ['redis:'])) {
+    reader.problem(`CLUSTER_REDIS_URL: ${JSON.stringify(config.cluster.redisUrl)} is not a redis:// URL`);
+  }
+  if (config.sessions.multiSessionDefaultLifetimeMs > config.sessions.multiSessionMaxLifetimeMs) {
+    reader.problem('MULTI_SESSION_DEFAULT_LIFETIME_MS: must not exceed MULTI_SESSION_MAX_LIFETIME_MS');
+  }
+  if (config.cluster.reconnectMinDelayMs > config.cluster.reconnectMaxDelayMs) {
+    reader.problem('CLUSTER_RECONNECT_MIN_DELAY_MS: must not exceed CLUSTER_RECONNECT_MAX_DELAY_MS');
+  }
+  if (config.cluster.adapter === 'redis' && config.sessions.tokenSecret === null) {
+    reader.problem('SESSION_TOKEN_SECRET is required with CLUSTER_ADAPTER=redis, so every instance accepts the same tokens');
+  }
+  if (config.admin.token !== null && config.admin.token.length < 32) {
+    reader.problem('ADMIN_TOKEN: use at least 32 characters');
+  }
+  if (config.sessions.tokenSecret !== null && config.sessions.tokenSecret.length < 32) {
+    reader.problem('SESSION_TOKEN_SECRET: use at least 32 characters');
+  }
+
+  problems.push(...reader.problems);
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+let current: Config | null = null;
+
+// The process-wide configuration, loaded on first use
+function getConfig(): Config {
+  if (!current) current = loadConfig();
+  return current;
+}
+
+// Timeout for a session state, or undefined for states that never time out
+function stateTimeout(config: Config, status: SessionStatus): number | undefined {
+  return (config.sessions.timeouts as Partial<Record<SessionStatus, number>>)[status];
+}
+
+export {
+  SessionConfig,
+  IntervalConfig,
+  BotAuthConfig,
+  BotQueueConfig,
+  ClusterConfig,
+  NearConfig,
+  WalletProofConfig,
+  ShutdownConfig,
+  Config,
+  ConfigError,
+  loadConfig,
+  getConfig,
+  stateTimeout
+};
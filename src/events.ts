@@ -0,0 +1,92 @@
+// Lifecycle events
+//
+// Emitted by the message handlers through on()/emit() so embedding code and webhooks can
+// react to what happens to sessions and bots.
+
+interface SessionEventBase {
+  sessionId: string;
+  userId: string;
+  chatId: string;
+  username: string;
+  botId?: string;
+  timestamp: string;
+}
+
+interface SessionCreatedEvent extends SessionEventBase {
+  disconnectPurpose: string | null;
+  hasTransactionData: boolean;
+}
+
+interface FrontendAttachedEvent extends SessionEventBase {
+  // True when a dropped frontend took the session back with its resume secret
+  resumed: boolean;
+}
+
+interface WalletConnectedEvent extends SessionEventBase {
+  walletId: string;
+  // walletId was proven with a signed challenge
+  verified: boolean;
+}
+
+interface WalletDisconnectedEvent extends SessionEventBase {
+  walletId: string | null;
+  reason: string;
+}
+
+interface TransactionCompletedEvent extends SessionEventBase {
+  requestId?: string;
+  success: boolean;
+  verified: boolean;
+  walletId: string | null;
+  txHash?: string;
+  error?: any;
+  // Why on-chain verification rejected a reported success
+  verificationError?: string;
+}
+
+interface SessionExpiredEvent extends SessionEventBase {
+  state: string;
+  reason: string;
+}
+
+interface BotConnectedEvent {
+  botId: string;
+  keyId: string;
+  timestamp: string;
+}
+
+interface LifecycleEvents {
+  session_created: SessionCreatedEvent;
+  frontend_attached: FrontendAttachedEvent;
+  wallet_connected: WalletConnectedEvent;
+  wallet_disconnected: WalletDisconnectedEvent;
+  transaction_completed: TransactionCompletedEvent;
+  session_expired: SessionExpiredEvent;
+  bot_connected: BotConnectedEvent;
+}
+
+type LifecycleEventName = keyof LifecycleEvents;
+
+const LIFECYCLE_EVENTS: LifecycleEventName[] = [
+  'session_created',
+  'frontend_attached',
+  'wallet_connected',
+  'wallet_disconnected',
+  'transaction_completed',
+  'session_expired',
+  'bot_connected'
+];
+
+export {
+  SessionEventBase,
+  SessionCreatedEvent,
+  FrontendAttachedEvent,
+  WalletConnectedEvent,
+  WalletDisconnectedEvent,
+  TransactionCompletedEvent,
+  SessionExpiredEvent,
+  BotConnectedEvent,
+  LifecycleEvents,
+  LifecycleEventName,
+  LIFECYCLE_EVENTS
+};
@@ -0,0 +1,95 @@
+import { WebSocket as WSWebSocket } from 'ws';
+import { Logger, logger } from './logger';
+
+// Heartbeat
+//
+// Every HEARTBEAT_INTERVAL_MS the server sends a WebSocket ping to each socket. Any pong or
+// message counts as a sign of life; a socket that misses HEARTBEAT_MAX_MISSED pings in a row
+// is terminated and handed to the onDead callback so it leaves the session and bot registries.
+// HEARTBEAT_INTERVAL_MS=0 disables the heartbeat.
+
+interface HeartbeatConfig {
+  intervalMs: number;
+  maxMissed: number;
+}
+
+interface Liveness {
+  lastSeenAt: Date;
+  missedPings: number;
+}
+
+class Heartbeat {
+  private sockets = new Map<WSWebSocket, Liveness>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly config: HeartbeatConfig,
+    private readonly onDead: (ws: WSWebSocket) => void,
+    private readonly log: Logger = logger
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.intervalMs > 0;
+  }
+
+  start(): void {
+    if (!this.enabled || this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  track(ws: WSWebSocket): void {
+    this.sockets.set(ws, { lastSeenAt: new Date(), missedPings: 0 });
+
+    const seen = () => {
+      const liveness = this.sockets.get(ws);
+      if (!liveness) return;
+      liveness.lastSeenAt = new Date();
+      liveness.missedPings = 0;
+    };
+    ws.on('pong', seen);
+    ws.on('message', seen);
+  }
+
+  untrack(ws: WSWebSocket): void {
+    this.sockets.delete(ws);
+  }
+
+  get(ws: WSWebSocket): Liveness | undefined {
+    return this.sockets.get(ws);
+  }
+
+  private tick(): void {
+    this.sockets.forEach((liveness, ws) => {
+      if (liveness.missedPings >= this.config.maxMissed) {
+        this.log.warn('Terminating unresponsive socket', { lastSeenAt: liveness.lastSeenAt, missedPings: liveness.missedPings });
+        this.sockets.delete(ws);
+        ws.terminate();
+        this.onDead(ws);
+        return;
+      }
+
+      liveness.missedPings++;
+      try {
+        ws.ping();
+      } catch {
+        // Socket is already closing; the next tick reaps it
+      }
+    });
+  }
+}
+
+function createHeartbeat(config: HeartbeatConfig, onDead: (ws: WSWebSocket) => void, log: Logger = logger): Heartbeat {
+  return new Heartbeat(config, onDead, log);
+}
+
+export {
+  HeartbeatConfig,
+  Liveness,
+  Heartbeat,
+  createHeartbeat
+};
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { OperationFailure } from './types';
+import { canonicalJson } from './txVerification';
+
+// Idempotent retries
+//
+// create_session, create_disconnect_session, process_transaction and transaction_result take
+// an optional idempotencyKey. The first message with a key is processed and its response kept
+// for IDEMPOTENCY_TTL_MS; a retry with the same key and the same payload gets that response
+// again (marked replayed) without anything happening twice. Reusing a key for a different
+// payload is refused. Failed requests are not kept, so they can be retried.
+//
+// Keys are scoped to the bot (or for transaction results the session) that sent them. Responses
+// are cached per instance; in a cluster a retry that lands on another instance is processed
+// as a new request.
+
+interface IdempotencyConfig {
+  ttlMs: number;
+}
+
+type IdempotencyLookup<T> =
+  // Not seen before: the key is now reserved until complete() or release()
+  | { status: 'new' }
+  | { status: 'replay'; response: T }
+  | { status: 'conflict' }
+  // The first request with the key is still being processed
+  | { status: 'in_progress' };
+
+interface CacheEntry<T> {
+  fingerprint: string;
+  response: T | undefined;
+  expiresAt: number;
+}
+
+class IdempotencyCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly config: IdempotencyConfig) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  begin(key: string, fingerprint: string, now: number = Date.now()): IdempotencyLookup<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      if (entry.fingerprint !== fingerprint) return { status: 'conflict' };
+      return entry.response === undefined ? { status: 'in_progress' } : { status: 'replay', response: entry.response };
+    }
+
+    this.entries.set(key, { fingerprint, response: undefined, expiresAt: now + this.config.ttlMs });
+    return { status: 'new' };
+  }
+
+  complete(key: string, response: T, now: number = Date.now()): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.response = response;
+    // The window starts when the response is known, not when the request arrived
+    entry.expiresAt = now + this.config.ttlMs;
+  }
+
+  release(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry && entry.response === undefined) this.entries.delete(key);
+  }
+
+  // Drop expired entries; returns how many were removed
+  prune(now: number = Date.now()): number {
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+}
+
+// Order-independent hash of a request payload
+function fingerprint(payload: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+// The failure to return for a lookup that cannot be processed or replayed
+function lookupFailure(lookup: IdempotencyLookup<unknown>): OperationFailure | null {
+  switch (lookup.status) {
+    case 'conflict':
+      return { ok: false, code: 'idempotency_conflict', message: 'Idempotency key was already used for a different request' };
+    case 'in_progress':
+      return { ok: false, code: 'request_in_progress', message: 'A request with this idempotency key is still being processed' };
+    default:
+      return null;
+  }
+}
+
+export {
+  IdempotencyConfig,
+  IdempotencyLookup,
+  IdempotencyCache,
+  fingerprint,
+  lookupFailure
+};
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { NormalizedTransaction } from './protocol';
+import { Logger, logger } from './logger';
+
+// Transaction ledger
+//
+// Sessions are deleted shortly after they finish, so every transaction result and wallet
+// disconnection is also appended here for reconciliation and disputes. Entries are never
+// changed or removed.
+//
+// LEDGER_STORE picks the backend: "file" (the default; JSON lines appended to LEDGER_PATH and
+// read back on startup) or "memory" (lost on restart, for development and tests). In a cluster
+// every instance keeps its own ledger.
+
+type LedgerOutcome = 'transaction_completed' | 'wallet_disconnected';
+
+interface LedgerEntry {
+  entryId: string;
+  outcome: LedgerOutcome;
+  recordedAt: Date;
+  sessionId: string;
+  botId: string | null;
+  userId: string;
+  chatId: string;
+  username: string;
+  walletId: string | null;
+  // Transaction request the result belongs to (multi-transaction sessions)
+  requestId: string | null;
+  transactionData: NormalizedTransaction | null;
+  // For transactions: confirmed on chain. Wallet disconnections always succeed.
+  success: boolean;
+  txHash: string | null;
+  // Wallet error or verification failure for transactions, the user's reason for disconnections
+  error: string | null;
+  disconnectPurpose: string | null;
+  sessionCreatedAt: Date;
+  requestedAt: Date | null;
+}
+
+interface LedgerQuery {
+  userId?: string;
+  chatId?: string;
+  walletId?: string;
+  // recordedAt range, inclusive
+  from?: Date;
+  to?: Date;
+  success?: boolean;
+}
+
+interface LedgerConfig {
+  store: 'memory' | 'file';
+  path: string;
+}
+
+interface Ledger {
+  readonly size: number;
+  record(entry: Omit<LedgerEntry, 'entryId' | 'recordedAt'>): LedgerEntry;
+  // Matching entries, oldest first
+  query(query: LedgerQuery): LedgerEntry[];
+}
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+  'entryId',
+  'outcome',
+  'recordedAt',
+  'sessionId',
+  'botId',
+  'userId',
+  'chatId',
+  'username',
+  'walletId',
+  'requestId',
+  'success',
+  'txHash',
+  'error',
+  'disconnectPurpose',
+  'sessionCreatedAt',
+  'requestedAt',
+  'transactionData'
+];
+
+function matches(entry: LedgerEntry, query: LedgerQuery): boolean {
+  return (query.userId === undefined || entry.userId === query.userId)
+    && (query.chatId === undefined || entry.chatId === query.chatId)
+    && (query.walletId === undefined || entry.walletId === query.walletId)
+    && (query.from === undefined || entry.recordedAt >= query.from)
+    && (query.to === undefined || entry.recordedAt <= query.to)
+    && (query.success === undefined || entry.success === query.success);
+}
+
+// In-memory backend (entries are lost on restart)
+class MemoryLedger implements Ledger {
+  protected entries: LedgerEntry[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  record(fields: Omit<LedgerEntry, 'entryId' | 'recordedAt'>): LedgerEntry {
+    const entry: LedgerEntry = { entryId: uuidv4(), recordedAt: new Date(), ...fields };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  query(query: LedgerQuery): LedgerEntry[] {
+    return this.entries.filter(entry => matches(entry, query));
+  }
+}
+
+// Append-only file backend. The whole ledger is read into memory on startup.
+class FileLedger extends MemoryLedger {
+  constructor(private readonly filePath: string, private readonly log: Logger = logger) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+  }
+
+  record(fields: Omit<LedgerEntry, 'entryId' | 'recordedAt'>): LedgerEntry {
+    const entry = super.record(fields);
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    return entry;
+  }
+
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    fs.readFileSync(this.filePath, 'utf8').split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        this.entries.push(reviveEntry(JSON.parse(line)));
+      } catch {
+        // A crash can leave a partially written last line behind
+        this.log.warn('Skipping unreadable ledger line', { path: this.filePath, line: index + 1 });
+      }
+    });
+  }
+}
+
+function reviveEntry(raw: any): LedgerEntry {
+  return {
+    ...raw,
+    recordedAt: new Date(raw.recordedAt),
+    sessionCreatedAt: new Date(raw.sessionCreatedAt),
+    requestedAt: raw.requestedAt ? new Date(raw.requestedAt) : null
+  };
+}
+
+// Text cells starting with these are run as formulas by spreadsheet applications
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Usernames, wallet IDs and reasons come from users and bots; a leading quote keeps them text
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with a header row; transactionData is a JSON column
+function ledgerToCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function createLedger(config: LedgerConfig, log: Logger = logger): Ledger {
+  return config.store === 'file' ? new FileLedger(config.path, log) : new MemoryLedger();
+}
+
+export {
+  LedgerOutcome,
+  LedgerEntry,
+  LedgerQuery,
+  LedgerConfig,
+  Ledger,
+  MemoryLedger,
+  FileLedger,
+  ledgerToCsv,
+  createLedger
+};
@@ -0,0 +1,112 @@
+import http from 'http';
+import { LimitErrorCode } from './protocol';
+
+// Resource limits
+//
+// Caps that keep a single client from exhausting the process. Each one is configurable (see
+// config.ts) and a value of 0 turns it off:
+//   MAX_CONNECTIONS_PER_IP    open WebSocket connections per client address
+//   MAX_MESSAGES_PER_SECOND   inbound messages per socket, excess messages are dropped
+//   MAX_PAYLOAD_BYTES         largest inbound frame or HTTP body; bigger frames close the socket
+//                             with 1009, bigger bodies get 413
+//   MAX_SESSIONS_PER_USER     open (non-terminal) sessions per userId
+//   MAX_SESSIONS_PER_BOT      open sessions per bot identity
+//   MAX_SESSIONS              open sessions overall
+// Behind a reverse proxy set TRUST_PROXY=true so the client address comes from X-Forwarded-For,
+// and TRUST_PROXY_HOPS to the number of proxies in front of the server (default 1). Each proxy
+// appends the address it saw, so only the entry added by the outermost trusted proxy is used;
+// anything to its left was written by the client and can be forged.
+
+interface LimitsConfig {
+  maxConnectionsPerIp: number;
+  maxMessagesPerSecond: number;
+  maxPayloadBytes: number;
+  maxSessionsPerUser: number;
+  maxSessionsPerBot: number;
+  maxSessions: number;
+  trustProxy: boolean;
+  trustProxyHops: number;
+}
+
+// Per-socket message window
+interface MessageWindow {
+  startedAt: number;
+  count: number;
+}
+
+function exceeds(count: number, limit: number): boolean {
+  return limit > 0 && count >= limit;
+}
+
+function clientAddress(req: http.IncomingMessage, trustProxy: boolean, trustProxyHops: number = 1): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    const entries = forwarded.split(',').map(entry => entry.trim()).filter(Boolean);
+    const address = entries[Math.max(0, entries.length - trustProxyHops)];
+    if (address) return address;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// Open connections per client address
+class ConnectionTracker {
+  private counts = new Map<string, number>();
+
+  constructor(private readonly limit: number) {}
+
+  // Reserve a slot for a new connection, false if the address is at its limit
+  acquire(address: string): boolean {
+    const count = this.counts.get(address) || 0;
+    if (exceeds(count, this.limit)) return false;
+    this.counts.set(address, count + 1);
+    return true;
+  }
+
+  release(address: string): void {
+    const count = (this.counts.get(address) || 0) - 1;
+    if (count > 0) {
+      this.counts.set(address, count);
+    } else {
+      this.counts.delete(address);
+    }
+  }
+}
+
+// Count a message against a one-second window. Returns false when the socket is over its limit.
+function allowMessage(window: MessageWindow, limit: number, now: number = Date.now()): boolean {
+  if (now - window.startedAt >= 1000) {
+    window.startedAt = now;
+    window.count = 0;
+  }
+  window.count++;
+  return limit <= 0 || window.count <= limit;
+}
+
+class RejectionCounters {
+  private counts: Record<LimitErrorCode, number> = {
+    connection_limit: 0,
+    rate_limited: 0,
+    payload_too_large: 0,
+    user_session_limit: 0,
+    bot_session_limit: 0,
+    session_limit: 0
+  };
+
+  increment(code: LimitErrorCode): void {
+    this.counts[code]++;
+  }
+
+  snapshot(): Record<LimitErrorCode, number> {
+    return { ...this.counts };
+  }
+}
+
+export {
+  LimitsConfig,
+  MessageWindow,
+  exceeds,
+  clientAddress,
+  ConnectionTracker,
+  allowMessage,
+  RejectionCounters
+};
@@ -0,0 +1,165 @@
+import { getConfig } from './config';
+
+// Logging
+//
+// Log lines carry a level, a message and structured fields:
+//   log.info('Wallet connected', { sessionId, walletId })
+// LOG_FORMAT=json writes one JSON object per line for log shippers (the default when
+// NODE_ENV=production); LOG_FORMAT=pretty writes readable lines for local development.
+// LOG_LEVEL (debug, info, warn, error) drops anything below it.
+//
+// child() returns a logger that adds fields to every line, which is how connection and
+// session correlation IDs (connectionId, sessionId) end up on everything a handler logs.
+//
+// Fields named in LOG_REDACT are replaced with "[redacted]" at any depth, in both formats.
+// The default list covers wallet IDs, signatures, transaction hashes, user and chat IDs and
+// token values; LOG_REDACT=none turns redaction off.
+//
+// `logger` is configured from getConfig() on first use. Each server instance logs through
+// createLogger(config.logging) instead and hands that logger to the components it creates, so
+// instances embedded in one process can log with different settings.
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+interface LoggingConfig {
+  level: LogLevel;
+  format: 'json' | 'pretty';
+  redact: string[];
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const DEFAULT_REDACTED_FIELDS = [
+  'walletId',
+  'signature',
+  'txHash',
+  'userId',
+  'chatId',
+  'username',
+  'token',
+  'resumeSecret',
+  'secret',
+  'txnLink'
+];
+
+const REDACTED = '[redacted]';
+
+interface ResolvedSettings {
+  minLevel: number;
+  format: 'json' | 'pretty';
+  redact: Set<string>;
+}
+
+function resolveSettings({ level, format, redact }: LoggingConfig): ResolvedSettings {
+  return {
+    minLevel: LOG_LEVELS.indexOf(level),
+    format,
+    redact: new Set(redact.map(field => field.toLowerCase()))
+  };
+}
+
+let processSettings: ResolvedSettings | null = null;
+
+// Settings of the process-wide logger
+function getProcessSettings(): ResolvedSettings {
+  if (!processSettings) processSettings = resolveSettings(getConfig().logging);
+  return processSettings;
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+// Copy a value with redacted fields masked and errors turned into plain objects
+function sanitize(value: unknown, redact: Set<string>, depth: number = 0): unknown {
+  if (value instanceof Error) return sanitize(serializeError(value), redact, depth);
+  if (value instanceof Date) return value.toISOString();
+  if (!value || typeof value !== 'object' || depth > 8) return value;
+  if (Array.isArray(value)) return value.map(item => sanitize(item, redact, depth + 1));
+
+  const result: LogFields = {};
+  Object.keys(value).forEach(key => {
+    const field = (value as LogFields)[key];
+    if (field === undefined) return;
+    result[key] = redact.has(key.toLowerCase()) && field !== null ? REDACTED : sanitize(field, redact, depth + 1);
+  });
+  return result;
+}
+
+function formatPrettyValue(value: unknown): string {
+  if (typeof value === 'string') return /[\s"=]/.test(value) || value === '' ? JSON.stringify(value) : value;
+  return JSON.stringify(value);
+}
+
+function formatPretty(time: string, level: LogLevel, message: string, fields: LogFields): string {
+  const { stack, ...rest } = (fields.error && typeof fields.error === 'object' ? fields.error : {}) as LogFields;
+  const printable = stack ? { ...fields, error: rest } : fields;
+  const pairs = Object.keys(printable).map(key => `${key}=${formatPrettyValue(printable[key])}`);
+  const line = `[${time}] ${level.toUpperCase()}${' '.repeat(6 - level.length)}${message}${pairs.length > 0 ? ' ' + pairs.join(' ') : ''}`;
+  return stack ? `${line}\n${stack}` : line;
+}
+
+class Logger {
+  constructor(
+    private readonly context: LogFields = {},
+    private readonly settings: () => ResolvedSettings = getProcessSettings
+  ) {}
+
+  // Logger that adds `fields` to every line
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.context, ...fields }, this.settings);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    const { minLevel, format, redact } = this.settings();
+    if (LOG_LEVELS.indexOf(level) < minLevel) return;
+
+    const time = new Date().toISOString();
+    const merged = sanitize({ ...this.context, ...fields }, redact) as LogFields;
+    const line = format === 'json'
+      ? JSON.stringify({ time, level, msg: message, ...merged })
+      : formatPretty(time, level, message, merged);
+
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(line + '\n');
+    } else {
+      process.stdout.write(line + '\n');
+    }
+  }
+}
+
+const logger = new Logger();
+
+function createLogger(config: LoggingConfig): Logger {
+  const settings = resolveSettings(config);
+  return new Logger({}, () => settings);
+}
+
+export {
+  LogLevel,
+  LogFields,
+  LoggingConfig,
+  LOG_LEVELS,
+  DEFAULT_REDACTED_FIELDS,
+  Logger,
+  logger,
+  createLogger
+};
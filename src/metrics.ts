@@ -0,0 +1,198 @@
+// Prometheus metrics
+//
+// GET /metrics serves the metrics below in the Prometheus text exposition format (0.0.4).
+// Counters and histograms are updated as things happen; gauges are read from the live server
+// state when the endpoint is scraped. Durations are in seconds.
+
+type Labels = Record<string, string>;
+
+interface GaugeSample {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+// Live values behind the gauges
+interface MetricsSources {
+  sessionsByStatus(): Record<string, number>;
+  botConnections(): number;
+  frontendConnections(): number;
+}
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// From a few seconds for a quick signature to the longest state timeouts
+const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 900];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels).map(name => `${name}="${escapeLabelValue(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  protected samples(): string[] {
+    if (this.values.size === 0) return [`${this.name} 0`];
+    return Array.from(this.values.values()).map(entry => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+  }
+}
+
+class Gauge extends Metric {
+  constructor(name: string, help: string, private readonly collect: () => GaugeSample[]) {
+    super(name, help, 'gauge');
+  }
+
+  protected samples(): string[] {
+    return this.collect().map(sample => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+  }
+}
+
+class Histogram extends Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, private readonly buckets: number[] = DURATION_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.bucketCounts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    const all = this.series.size > 0
+      ? Array.from(this.series.values())
+      : [{ labels: {}, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }];
+
+    const lines: string[] = [];
+    all.forEach(series => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    });
+    return lines;
+  }
+}
+
+class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => GaugeSample[]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Bots name their own disconnect purposes, so only the one the server sets itself is kept as a
+// label value and the rest are counted together
+function purposeLabel(purpose: string | null | undefined): string {
+  if (!purpose) return 'none';
+  return purpose === 'wallet_disconnect' ? purpose : 'other';
+}
+
+function createServerMetrics(sources: MetricsSources) {
+  const registry = new MetricsRegistry();
+
+  return {
+    registry,
+    sessionsCreated: registry.counter('trsocket_sessions_created_total', 'Sessions created, by purpose (wallet_disconnect, other, or none for regular sessions)'),
+    walletsConnected: registry.counter('trsocket_wallets_connected_total', 'Wallets connected to a session'),
+    transactions: registry.counter('trsocket_transactions_total', 'Transaction results, by result (succeeded or failed)'),
+    messages: registry.counter('trsocket_messages_received_total', 'Valid inbound WebSocket messages, by type'),
+    messagesRejected: registry.counter('trsocket_messages_rejected_total', 'Inbound WebSocket messages rejected, by reason (unparseable, unknown_type, invalid, unauthorized)'),
+    botMessagesUndelivered: registry.counter('trsocket_bot_messages_undelivered_total', 'Bot notifications sent while no bot was connected, by type and outcome (queued for replay or dropped)'),
+    walletConnectSeconds: registry.histogram('trsocket_wallet_connect_seconds', 'Time from session creation to wallet connection'),
+    transactionSeconds: registry.histogram('trsocket_transaction_seconds', 'Time from a transaction request to its result'),
+    sessionsOpen: registry.gauge('trsocket_sessions', 'Sessions currently held, by status', () => {
+      const counts = sources.sessionsByStatus();
+      return Object.keys(counts).map(status => ({ labels: { status }, value: counts[status] }));
+    }),
+    botConnections: registry.gauge('trsocket_bot_connections', 'Authenticated bot connections', () => [{ labels: {}, value: sources.botConnections() }]),
+    frontendConnections: registry.gauge('trsocket_frontend_connections', 'Wallet frontend connections attached to a session', () => [{ labels: {}, value: sources.frontendConnections() }])
+  };
+}
+
+type ServerMetrics = ReturnType<typeof createServerMetrics>;
+
+export {
+  Labels,
+  MetricsSources,
+  ServerMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  CONTENT_TYPE as METRICS_CONTENT_TYPE,
+  purposeLabel,
+  createServerMetrics
+};
@@ -0,0 +1,910 @@
+import { nearToYocto, addAmounts, fitsU128 } from './amounts';
+
+// WebSocket protocol
+//
+// Every message exchanged with bots and wallet frontends, as discriminated unions on `type`,
+// plus runtime validation for inbound messages. This module has no Node dependencies so the
+// wallet frontend can import it through the client SDK.
+
+// Shared shapes
+
+type Id = string | number; // Telegram IDs arrive as numbers from some bots
+
+// Actions a bot can request. Amounts and gas are integer strings: deposits in yoctoNEAR,
+// token amounts in the token's smallest unit.
+interface TransferAction {
+  type: 'Transfer';
+  deposit: string;
+}
+
+interface FunctionCallAction {
+  type: 'FunctionCall';
+  methodName: string;
+  args?: Record<string, unknown>;
+  gas?: string; // Defaults to DEFAULT_FUNCTION_CALL_GAS
+  deposit?: string; // Defaults to '0'
+}
+
+// NEP-141 transfer; the transaction receiver is the token contract. With `msg` this becomes
+// ft_transfer_call so the recipient contract is notified.
+interface FtTransferAction {
+  type: 'FtTransfer';
+  receiverId: string;
+  amount: string;
+  memo?: string;
+  msg?: string;
+  gas?: string;
+}
+
+type TransactionAction = TransferAction | FunctionCallAction | FtTransferAction;
+
+// What a bot asks the wallet to sign. Either `actions`, or the older single transfer given as
+// `amount` in NEAR (e.g. "0.5").
+interface TransactionData {
+  receiver: string;
+  actions?: TransactionAction[];
+  amount?: string;
+  purpose?: string;
+  metadata?: any;
+}
+
+// Actions as the wallet signs them (wallet-selector's Action shape)
+type NormalizedAction =
+  | { type: 'Transfer'; params: { deposit: string } }
+  | { type: 'FunctionCall'; params: { methodName: string; args: Record<string, unknown>; gas: string; deposit: string } };
+
+// Transaction data after validation, as stored on the session and sent to the frontend
+interface NormalizedTransaction {
+  receiverId: string;
+  actions: NormalizedAction[];
+  // Sum of all attached deposits, in yoctoNEAR
+  totalDeposit: string;
+  purpose?: string;
+  metadata?: any;
+}
+
+const TGAS = 1000000000000;
+const MAX_TRANSACTION_GAS = 300 * TGAS; // Protocol limit for a single transaction
+const DEFAULT_FUNCTION_CALL_GAS = 30 * TGAS;
+const DEFAULT_FT_TRANSFER_CALL_GAS = 100 * TGAS;
+
+// Inbound: bot -> server
+
+interface BotConnectMessage {
+  type: 'bot_connect';
+  botId?: string;
+  lastSeq?: number;
+  // Queue epoch from the bot_connected that lastSeq belongs to
+  queueEpoch?: string;
+}
+
+interface BotAuthMessage {
+  type: 'bot_auth';
+  keyId: string;
+  signature: string;
+}
+
+interface BotAckMessage {
+  type: 'bot_ack';
+  seq: number;
+  queueEpoch?: string;
+}
+
+// Opt-in for sessions that accept several process_transaction requests after the wallet is
+// connected. The session ends on close_session, wallet disconnect, after maxTransactions
+// results or when lifetimeMs runs out.
+interface MultiTransactionOptions {
+  maxTransactions?: number;
+  lifetimeMs?: number;
+}
+
+interface CreateSessionMessage {
+  type: 'create_session';
+  sessionId?: string;
+  userId: Id;
+  chatId: Id;
+  username: string;
+  // Not allowed together with multiTransaction
+  transactionData?: TransactionData;
+  disconnectPurpose?: string;
+  multiTransaction?: MultiTransactionOptions;
+  // Retries with the same key get the original response (see idempotency.ts)
+  idempotencyKey?: string;
+}
+
+interface CreateDisconnectSessionMessage {
+  type: 'create_disconnect_session';
+  sessionId?: string;
+  userId: Id;
+  chatId: Id;
+  username: string;
+  idempotencyKey?: string;
+}
+
+interface ProcessTransactionMessage {
+  type: 'process_transaction';
+  sessionId: string;
+  transactionData: TransactionData;
+  // Correlates the result notification; generated by the server when omitted
+  requestId?: string;
+  idempotencyKey?: string;
+}
+
+interface CloseSessionMessage {
+  type: 'close_session';
+  sessionId: string;
+  reason?: string;
+}
+
+// Inbound: wallet frontend -> server
+
+interface InitSessionMessage {
+  type: 'init_session';
+  token: string;
+}
+
+// Take a session back after the socket dropped, using the secret from session_initialized.
+// A session that finished in the meantime can still be resumed until it is cleaned up, read
+// only, so the frontend learns the outcome and can retry transaction_result with the same
+// idempotencyKey to get its confirmation.
+interface ResumeSessionMessage {
+  type: 'resume_session';
+  sessionId: string;
+  resumeSecret: string;
+}
+
+// NEP-413 signMessage output for the session's wallet challenge. Pass callbackUrl when the
+// wallet was asked to sign with one, since it is part of the signed payload.
+interface SignedWalletMessage {
+  accountId: string;
+  // ed25519:<base58>
+  publicKey: string;
+  // base64
+  signature: string;
+  callbackUrl?: string;
+  state?: string;
+}
+
+interface WalletConnectedMessage {
+  type: 'wallet_connected';
+  sessionId: string;
+  walletId: string;
+  txnLink?: string;
+  // Proof that the user holds a key of walletId; required unless WALLET_PROOF_REQUIRED=false
+  signedMessage?: SignedWalletMessage;
+}
+
+interface WalletDisconnectedMessage {
+  type: 'wallet_disconnected';
+  sessionId: string;
+  reason?: string;
+}
+
+interface TransactionResultMessage {
+  type: 'transaction_result';
+  sessionId: string;
+  // Request the result is for; defaults to the one currently pending
+  requestId?: string;
+  success: boolean;
+  signature?: string;
+  txHash?: string;
+  error?: any;
+  walletId?: string;
+  idempotencyKey?: string;
+}
+
+// Inbound: either side
+
+interface PingMessage {
+  type: 'ping';
+}
+
+type BotRequest =
+  | BotConnectMessage
+  | BotAuthMessage
+  | BotAckMessage
+  | CreateSessionMessage
+  | CreateDisconnectSessionMessage
+  | ProcessTransactionMessage
+  | CloseSessionMessage
+  | PingMessage;
+
+type WalletRequest =
+  | InitSessionMessage
+  | ResumeSessionMessage
+  | WalletConnectedMessage
+  | WalletDisconnectedMessage
+  | TransactionResultMessage
+  | PingMessage;
+
+type InboundMessage = BotRequest | WalletRequest;
+
+// Outbound: server -> either side
+
+interface ValidationError {
+  path: string;
+  message: string;
+}
+
+interface ConnectedMessage {
+  type: 'connected';
+  message: string;
+  timestamp: string;
+}
+
+// Machine-readable reasons for rejections caused by resource limits
+type LimitErrorCode =
+  | 'connection_limit'
+  | 'rate_limited'
+  | 'payload_too_large'
+  | 'user_session_limit'
+  | 'bot_session_limit'
+  | 'session_limit';
+
+// shutting_down: the server is draining before a restart; retry on a new connection
+// wallet_proof_failed: wallet_connected had no valid signed message for the session's challenge
+// session_exists: create_session named a session ID that is taken, with a different payload
+// idempotency_conflict: the idempotencyKey was already used for a different payload
+// request_in_progress: the first message with the idempotencyKey is still being processed
+type ErrorCode =
+  | 'not_found'
+  | 'invalid_state'
+  | 'shutting_down'
+  | 'wallet_proof_failed'
+  | 'session_exists'
+  | 'idempotency_conflict'
+  | 'request_in_progress'
+  | LimitErrorCode;
+
+// Outbound: server -> either side, when a graceful shutdown starts. The server stops taking
+// new sessions and transaction requests, waits for transactions already sent to a wallet and
+// then closes the connection with code 1001. Reconnect after reconnectAfterMs: frontends with
+// resume_session, bots with bot_connect (queued notifications are replayed).
+interface ServerShuttingDownMessage {
+  type: 'server_shutting_down';
+  message: string;
+  reconnectAfterMs: number;
+  // Longest the connection stays open from now
+  closesWithinMs: number;
+  timestamp: string;
+}
+
+interface ErrorMessage {
+  type: 'error';
+  message: string;
+  code?: ErrorCode;
+  errors?: ValidationError[];
+  timestamp: string;
+}
+
+interface PongMessage {
+  type: 'pong';
+  timestamp: string;
+}
+
+// Outbound: server -> bot (replies)
+
+interface BotChallengeMessage {
+  type: 'bot_challenge';
+  nonce: string;
+  timestamp: string;
+}
+
+interface BotConnectedMessage {
+  type: 'bot_connected';
+  botId: string;
+  // Sequence numbers of notifications on this connection belong to this epoch
+  queueEpoch: string;
+  message: string;
+  timestamp: string;
+}
+
+interface SessionCreatedMessage {
+  type: 'session_created';
+  sessionId: string;
+  token: string;
+  tokenExpiresAt: string;
+  hasTransactionData: boolean;
+  disconnectPurpose: string | null;
+  // Set when this answers a retry of an earlier create_session
+  replayed?: boolean;
+  timestamp: string;
+}
+
+interface DisconnectSessionCreatedMessage {
+  type: 'disconnect_session_created';
+  sessionId: string;
+  token: string;
+  tokenExpiresAt: string;
+  purpose: 'wallet_disconnect';
+  replayed?: boolean;
+  timestamp: string;
+}
+
+interface TransactionSentMessage {
+  type: 'transaction_sent';
+  sessionId: string;
+  requestId: string;
+  message: string;
+  replayed?: boolean;
+  timestamp: string;
+}
+
+interface SessionClosedMessage {
+  type: 'session_closed';
+  sessionId: string;
+  message: string;
+  timestamp: string;
+}
+
+// Outbound: server -> bot (notifications, queued until acknowledged)
+
+interface SessionNotificationBase {
+  userId: string;
+  chatId: string;
+  username: string;
+  sessionId: string;
+  timestamp: string;
+  // Set when delivered through the bot queue
+  seq?: number;
+  replayed?: boolean;
+}
+
+interface WalletConnectedNotification extends SessionNotificationBase {
+  type: 'wallet_connected';
+  walletId: string;
+  txnLink: string;
+  // The frontend proved the user holds a key of walletId with a signed challenge
+  verified: boolean;
+}
+
+interface WalletDisconnectedNotification extends SessionNotificationBase {
+  type: 'wallet_disconnected';
+  walletId: string | null;
+  reason: string;
+}
+
+interface TransactionCompletedNotification extends SessionNotificationBase {
+  type: 'transaction_completed';
+  requestId?: string;
+  success: boolean;
+  verified: boolean;
+  disconnectPurpose?: string;
+  signature?: string;
+  walletId?: string;
+  txHash?: string;
+  error?: any;
+}
+
+interface VerificationFailedNotification extends SessionNotificationBase {
+  type: 'verification_failed';
+  requestId?: string;
+  disconnectPurpose?: string;
+  reason?: string;
+  walletId?: string;
+  txHash?: string;
+}
+
+interface SessionExpiredNotification extends SessionNotificationBase {
+  type: 'session_expired';
+  // State the session was in when it timed out
+  state: string;
+  reason: string;
+}
+
+type BotNotification =
+  | WalletConnectedNotification
+  | WalletDisconnectedNotification
+  | TransactionCompletedNotification
+  | VerificationFailedNotification
+  | SessionExpiredNotification;
+
+// Outbound: server -> wallet frontend
+
+// Parameters for the wallet's NEP-413 signMessage; nonce is 32 bytes, base64 encoded
+interface WalletChallenge {
+  message: string;
+  recipient: string;
+  nonce: string;
+}
+
+interface SessionInitializedMessage {
+  type: 'session_initialized';
+  userId: string;
+  username: string;
+  sessionId: string;
+  transactionData: NormalizedTransaction | null;
+  disconnectPurpose: string | null;
+  // Sign this with the wallet and send the result with wallet_connected
+  walletChallenge: WalletChallenge;
+  // Present with resume_session if the socket drops; replaced on every resume
+  resumeSecret: string;
+  timestamp: string;
+}
+
+// Snapshot of the session for a frontend that resumed it
+interface SessionResumedMessage {
+  type: 'session_resumed';
+  userId: string;
+  username: string;
+  sessionId: string;
+  status: string;
+  walletId: string | null;
+  transactionData: NormalizedTransaction | null;
+  disconnectPurpose: string | null;
+  // Transaction the bot requested while the frontend was away and that still awaits a result
+  pendingTransaction: NormalizedTransaction | null;
+  pendingRequestId: string | null;
+  stateExpiresAt: string | null;
+  // Still to be signed, or null once the wallet is connected
+  walletChallenge: WalletChallenge | null;
+  resumeSecret: string;
+  timestamp: string;
+}
+
+interface WalletConnectionReceivedMessage {
+  type: 'wallet_connection_received';
+  message: string;
+  timestamp: string;
+}
+
+interface WalletDisconnectionReceivedMessage {
+  type: 'wallet_disconnection_received';
+  message: string;
+  timestamp: string;
+}
+
+interface ProcessTransactionRequest {
+  type: 'process_transaction';
+  requestId: string;
+  transactionData: NormalizedTransaction;
+  timestamp: string;
+}
+
+interface TransactionResultReceivedMessage {
+  type: 'transaction_result_received';
+  requestId?: string;
+  // False while a multi-transaction session keeps accepting requests
+  sessionClosed: boolean;
+  message: string;
+  replayed?: boolean;
+  timestamp: string;
+}
+
+// A multi-transaction request that was not signed in time; the session stays open unless
+// sessionClosed says otherwise
+interface TransactionRequestExpiredMessage {
+  type: 'transaction_request_expired';
+  requestId: string;
+  reason: string;
+  sessionClosed: boolean;
+  timestamp: string;
+}
+
+interface SessionExpiredMessage {
+  type: 'session_expired';
+  sessionId: string;
+  reason: string;
+  timestamp: string;
+}
+
+type BotMessage =
+  | ConnectedMessage
+  | ServerShuttingDownMessage
+  | ErrorMessage
+  | PongMessage
+  | BotChallengeMessage
+  | BotConnectedMessage
+  | SessionCreatedMessage
+  | DisconnectSessionCreatedMessage
+  | TransactionSentMessage
+  | SessionClosedMessage
+  | BotNotification;
+
+type WalletMessage =
+  | ConnectedMessage
+  | ServerShuttingDownMessage
+  | ErrorMessage
+  | PongMessage
+  | SessionInitializedMessage
+  | SessionResumedMessage
+  | WalletConnectionReceivedMessage
+  | WalletDisconnectionReceivedMessage
+  | ProcessTransactionRequest
+  | TransactionResultReceivedMessage
+  | TransactionRequestExpiredMessage
+  | SessionExpiredMessage;
+
+type OutboundMessage = BotMessage | WalletMessage;
+
+// Runtime validation
+
+type Validator = (value: unknown, path: string, errors: ValidationError[]) => void;
+
+interface FieldSpec {
+  validate: Validator;
+  optional?: boolean;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push({ path, message: 'Expected a non-empty string' });
+  }
+};
+
+// Client-chosen retry key such as a UUID
+const idempotencyKey: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || value.length === 0 || value.length > 255) {
+    errors.push({ path, message: 'Expected a string of 1 to 255 characters' });
+  }
+};
+
+const id: Validator = (value, path, errors) => {
+  if (!((typeof value === 'string' && value.length > 0) || (typeof value === 'number' && Number.isFinite(value)))) {
+    errors.push({ path, message: 'Expected a non-empty string or a number' });
+  }
+};
+
+const string: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'Expected a string' });
+  }
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push({ path, message: 'Expected a boolean' });
+  }
+};
+
+const positiveInteger: Validator = (value, path, errors) => {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    errors.push({ path, message: 'Expected a positive integer' });
+  }
+};
+
+const anyValue: Validator = () => undefined;
+
+const required = (validate: Validator): FieldSpec => ({ validate });
+const optional = (validate: Validator): FieldSpec => ({ validate, optional: true });
+
+// Unknown keys are allowed so older and newer clients can talk to each other
+function object(shape: Record<string, FieldSpec>): Validator {
+  return (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push({ path: path || '$', message: 'Expected an object' });
+      return;
+    }
+    Object.entries(shape).forEach(([key, spec]) => {
+      const fieldValue = value[key];
+      if (fieldValue === undefined || fieldValue === null) {
+        if (!spec.optional) errors.push({ path: join(path, key), message: 'Required' });
+        return;
+      }
+      spec.validate(fieldValue, join(path, key), errors);
+    });
+  };
+}
+
+// NEAR account ID rules: 2-64 characters, lowercase alphanumeric parts separated by . - _
+const ACCOUNT_ID_PATTERN = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/;
+
+const accountId: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || value.length < 2 || value.length > 64 || !ACCOUNT_ID_PATTERN.test(value)) {
+    errors.push({ path, message: 'Expected a NEAR account ID' });
+  }
+};
+
+// Non-negative integer string without leading zeros, at most 2^128 - 1 (u128)
+const u128: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || !/^(0|[1-9]\d{0,38})$/.test(value)) {
+    errors.push({ path, message: 'Expected an integer amount string' });
+  } else if (!fitsU128(value)) {
+    errors.push({ path, message: 'Amount does not fit in a u128' });
+  }
+};
+
+// NEAR amount whose yoctoNEAR value fits in a u128
+const nearAmount: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || !/^\d+(\.\d{1,24})?$/.test(value)) {
+    errors.push({ path, message: 'Expected a NEAR amount with at most 24 decimals' });
+  } else if (!fitsU128(nearToYocto(value))) {
+    errors.push({ path, message: 'Amount does not fit in a u128 of yoctoNEAR' });
+  }
+};
+
+const gas: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || !/^[1-9]\d*$/.test(value) || Number(value) > MAX_TRANSACTION_GAS) {
+    errors.push({ path, message: `Expected a gas amount string between 1 and ${MAX_TRANSACTION_GAS}` });
+  }
+};
+
+const jsonObject: Validator = (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'Expected an object' });
+  }
+};
+
+const actionSchemas: Record<TransactionAction['type'], Validator> = {
+  Transfer: object({
+    deposit: required(u128)
+  }),
+  FunctionCall: object({
+    methodName: required(nonEmptyString),
+    args: optional(jsonObject),
+    gas: optional(gas),
+    deposit: optional(u128)
+  }),
+  FtTransfer: object({
+    receiverId: required(accountId),
+    amount: required(u128),
+    memo: optional(string),
+    msg: optional(string),
+    gas: optional(gas)
+  })
+};
+
+// Gas an action will be signed with once defaults are applied
+function actionGas(action: TransactionAction): number {
+  switch (action.type) {
+    case 'Transfer':
+      return 0;
+    case 'FunctionCall':
+      return action.gas ? Number(action.gas) : DEFAULT_FUNCTION_CALL_GAS;
+    case 'FtTransfer':
+      return action.gas ? Number(action.gas) : action.msg !== undefined ? DEFAULT_FT_TRANSFER_CALL_GAS : DEFAULT_FUNCTION_CALL_GAS;
+  }
+}
+
+// Deposit an action will be signed with once defaults are applied
+function actionDeposit(action: TransactionAction): string {
+  switch (action.type) {
+    case 'Transfer':
+      return action.deposit;
+    case 'FunctionCall':
+      return action.deposit || '0';
+    case 'FtTransfer':
+      return '1';
+  }
+}
+
+const actions: Validator = (value, path, errors) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ path, message: 'Expected a non-empty array' });
+    return;
+  }
+
+  const errorCount = errors.length;
+  value.forEach((action, index) => {
+    const actionPath = join(path, String(index));
+    const schema = isObject(action) && typeof action.type === 'string'
+      ? (actionSchemas as Record<string, Validator | undefined>)[action.type]
+      : undefined;
+    if (!schema) {
+      errors.push({ path: join(actionPath, 'type'), message: `Expected one of ${Object.keys(actionSchemas).join(', ')}` });
+      return;
+    }
+    schema(action, actionPath, errors);
+  });
+  if (errors.length > errorCount) return;
+
+  const totalGas = (value as TransactionAction[]).reduce((total, action) => total + actionGas(action), 0);
+  if (totalGas > MAX_TRANSACTION_GAS) {
+    errors.push({ path, message: `Total gas ${totalGas} exceeds the ${MAX_TRANSACTION_GAS} limit` });
+  }
+  // Each deposit fits, but the wallet has to sign their sum
+  const totalDeposit = (value as TransactionAction[]).reduce((total, action) => addAmounts(total, actionDeposit(action)), '0');
+  if (!fitsU128(totalDeposit)) {
+    errors.push({ path, message: 'Total deposit does not fit in a u128' });
+  }
+};
+
+const transactionDataShape = object({
+  receiver: required(accountId),
+  actions: optional(actions),
+  amount: optional(nearAmount),
+  purpose: optional(nonEmptyString),
+  metadata: optional(anyValue)
+});
+
+const transactionData: Validator = (value, path, errors) => {
+  const errorCount = errors.length;
+  transactionDataShape(value, path, errors);
+  if (errors.length > errorCount || !isObject(value)) return;
+
+  const hasActions = value.actions !== undefined && value.actions !== null;
+  const hasAmount = value.amount !== undefined && value.amount !== null;
+  if (hasActions === hasAmount) {
+    errors.push({ path: path || '$', message: 'Expected either actions or amount' });
+  }
+};
+
+const multiTransactionOptions = object({
+  maxTransactions: optional(positiveInteger),
+  lifetimeMs: optional(positiveInteger)
+});
+
+const createSessionShape = object({
+  sessionId: optional(nonEmptyString),
+  userId: required(id),
+  chatId: required(id),
+  username: required(nonEmptyString),
+  transactionData: optional(transactionData),
+  disconnectPurpose: optional(nonEmptyString),
+  multiTransaction: optional(multiTransactionOptions),
+  idempotencyKey: optional(idempotencyKey)
+});
+
+const createSession: Validator = (value, path, errors) => {
+  createSessionShape(value, path, errors);
+  if (isObject(value) && value.multiTransaction != null && value.transactionData != null) {
+    errors.push({ path: join(path, 'transactionData'), message: 'Not allowed with multiTransaction, send process_transaction instead' });
+  }
+};
+
+const inboundSchemas: Record<InboundMessage['type'], Validator> = {
+  bot_connect: object({
+    botId: optional(nonEmptyString),
+    lastSeq: optional(positiveInteger),
+    queueEpoch: optional(nonEmptyString)
+  }),
+  bot_auth: object({
+    keyId: required(nonEmptyString),
+    signature: required(nonEmptyString)
+  }),
+  bot_ack: object({
+    seq: required(positiveInteger),
+    queueEpoch: optional(nonEmptyString)
+  }),
+  create_session: createSession,
+  create_disconnect_session: object({
+    sessionId: optional(nonEmptyString),
+    userId: required(id),
+    chatId: required(id),
+    username: required(nonEmptyString),
+    idempotencyKey: optional(idempotencyKey)
+  }),
+  process_transaction: object({
+    sessionId: required(nonEmptyString),
+    transactionData: required(transactionData),
+    requestId: optional(nonEmptyString),
+    idempotencyKey: optional(idempotencyKey)
+  }),
+  close_session: object({
+    sessionId: required(nonEmptyString),
+    reason: optional(nonEmptyString)
+  }),
+  init_session: object({
+    token: required(nonEmptyString)
+  }),
+  resume_session: object({
+    sessionId: required(nonEmptyString),
+    resumeSecret: required(nonEmptyString)
+  }),
+  wallet_connected: object({
+    sessionId: required(nonEmptyString),
+    walletId: required(nonEmptyString),
+    txnLink: optional(string),
+    signedMessage: optional(object({
+      accountId: required(accountId),
+      publicKey: required(nonEmptyString),
+      signature: required(nonEmptyString),
+      callbackUrl: optional(string),
+      state: optional(string)
+    }))
+  }),
+  wallet_disconnected: object({
+    sessionId: required(nonEmptyString),
+    reason: optional(nonEmptyString)
+  }),
+  transaction_result: object({
+    sessionId: required(nonEmptyString),
+    requestId: optional(nonEmptyString),
+    success: required(boolean),
+    signature: optional(nonEmptyString),
+    txHash: optional(nonEmptyString),
+    error: optional(anyValue),
+    walletId: optional(nonEmptyString),
+    idempotencyKey: optional(idempotencyKey)
+  }),
+  ping: object({})
+};
+
+type ValidationResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: false; unknownType: boolean; errors: ValidationError[] };
+
+function validateInbound(data: unknown): ValidationResult {
+  if (!isObject(data)) {
+    return { ok: false, unknownType: false, errors: [{ path: '$', message: 'Expected an object' }] };
+  }
+  if (typeof data.type !== 'string') {
+    return { ok: false, unknownType: false, errors: [{ path: 'type', message: 'Required' }] };
+  }
+
+  const schema = (inboundSchemas as Record<string, Validator | undefined>)[data.type];
+  if (!schema) {
+    return { ok: false, unknownType: true, errors: [{ path: 'type', message: `Unknown message type: ${data.type}` }] };
+  }
+
+  const errors: ValidationError[] = [];
+  schema(data, '', errors);
+  return errors.length > 0
+    ? { ok: false, unknownType: false, errors }
+    : { ok: true, message: data as unknown as InboundMessage };
+}
+
+export {
+  Id,
+  TransferAction,
+  FunctionCallAction,
+  FtTransferAction,
+  TransactionAction,
+  TransactionData,
+  NormalizedAction,
+  NormalizedTransaction,
+  TGAS,
+  MAX_TRANSACTION_GAS,
+  DEFAULT_FUNCTION_CALL_GAS,
+  DEFAULT_FT_TRANSFER_CALL_GAS,
+  BotConnectMessage,
+  BotAuthMessage,
+  BotAckMessage,
+  MultiTransactionOptions,
+  CreateSessionMessage,
+  CreateDisconnectSessionMessage,
+  ProcessTransactionMessage,
+  CloseSessionMessage,
+  InitSessionMessage,
+  ResumeSessionMessage,
+  SignedWalletMessage,
+  WalletConnectedMessage,
+  WalletDisconnectedMessage,
+  TransactionResultMessage,
+  PingMessage,
+  BotRequest,
+  WalletRequest,
+  InboundMessage,
+  ValidationError,
+  LimitErrorCode,
+  ErrorCode,
+  ConnectedMessage,
+  ServerShuttingDownMessage,
+  ErrorMessage,
+  PongMessage,
+  BotChallengeMessage,
+  BotConnectedMessage,
+  SessionCreatedMessage,
+  DisconnectSessionCreatedMessage,
+  TransactionSentMessage,
+  SessionClosedMessage,
+  WalletConnectedNotification,
+  WalletDisconnectedNotification,
+  TransactionCompletedNotification,
+  VerificationFailedNotification,
+  SessionExpiredNotification,
+  BotNotification,
+  WalletChallenge,
+  SessionInitializedMessage,
+  SessionResumedMessage,
+  WalletConnectionReceivedMessage,
+  WalletDisconnectionReceivedMessage,
+  ProcessTransactionRequest,
+  TransactionResultReceivedMessage,
+  TransactionRequestExpiredMessage,
+  SessionExpiredMessage,
+  BotMessage,
+  WalletMessage,
+  OutboundMessage,
+  ValidationResult,
+  actionGas,
+  actionDeposit,
+  validateInbound
+};
@@ -0,0 +1,266 @@
+import http from 'http';
+import { BotKeyring } from './botAuth';
+import { ErrorCode, TransactionData, validateInbound, ValidationError } from './protocol';
+import { Session, CreateSessionParams, CreateSessionResult, OperationFailure, OperationResult, TransactionRequestResult } from './types';
+import { Logger, logger } from './logger';
+
+// Bot REST API
+//
+// HTTP alternative to the WebSocket bot protocol for workers that cannot keep a socket open.
+// Requests are signed as described in botAuth.ts; notifications still go through the bot
+// queue and webhooks.
+//
+//   POST   /sessions                      create a session (disconnectPurpose 'wallet_disconnect'
+//                                         creates a disconnect session)
+//   GET    /sessions/:id                  session details
+//   DELETE /sessions/:id                  cancel the session
+//   POST   /sessions/:id/transactions     send a transaction to the frontend for signing (returns
+//                                         the requestId used in the result notification)
+//
+// Both POST routes take an idempotencyKey in the body like their WebSocket messages; retried
+// requests get the original response with replayed: true.
+
+interface BotSessionOperations {
+  createSession(botId: string, params: CreateSessionParams): CreateSessionResult;
+  findSession(botId: string, sessionId: string): Session | undefined;
+  requestTransaction(botId: string, sessionId: string, transactionData: TransactionData, requestId?: string, idempotencyKey?: string): TransactionRequestResult;
+  cancelSession(botId: string, sessionId: string, reason: string): OperationResult;
+}
+
+interface RestApi {
+  handles(req: http.IncomingMessage): boolean;
+  handle(req: http.IncomingMessage, res: http.ServerResponse): void;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly errors?: ValidationError[], readonly code?: ErrorCode) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const OPERATION_STATUS: Record<ErrorCode, number> = {
+  not_found: 404,
+  invalid_state: 409,
+  shutting_down: 503,
+  wallet_proof_failed: 403,
+  session_exists: 409,
+  idempotency_conflict: 422,
+  request_in_progress: 409,
+  connection_limit: 429,
+  rate_limited: 429,
+  payload_too_large: 413,
+  user_session_limit: 429,
+  bot_session_limit: 429,
+  session_limit: 503
+};
+
+function sendJson(res: http.ServerResponse, status: number, body: object): void {
+  // The rest of an oversized body is never read, so that connection cannot carry another request
+  if (status === 413) res.setHeader('Connection', 'close');
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ ...body, timestamp: new Date().toISOString() }));
+}
+
+// Bodies over maxBytes (MAX_PAYLOAD_BYTES, 0 for no limit) are rejected with 413
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Past the limit the remaining chunks are discarded rather than destroying the request, so
+    // the 413 still reaches the client; the response then closes the connection
+    req.on('data', (chunk: Buffer) => {
+      if (maxBytes > 0 && size > maxBytes) return;
+      size += chunk.length;
+      if (maxBytes > 0 && size > maxBytes) {
+        chunks.length = 0;
+        reject(new HttpError(413, 'Request body too large', undefined, 'payload_too_large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(body: string): any {
+  if (!body) return {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+// Validate a request body with the schema of the equivalent WebSocket message
+function validateAs(type: 'create_session' | 'process_transaction', body: any): any {
+  const validation = validateInbound({ ...body, type });
+  if (!validation.ok) {
+    throw new HttpError(400, 'Invalid request', validation.errors);
+  }
+  return validation.message;
+}
+
+// Returns the bot ID the request acts as
+function authenticate(keyring: BotKeyring, req: http.IncomingMessage, path: string, body: string): string {
+  const keyId = req.headers['x-bot-key-id'];
+  const header = req.headers['x-bot-id'];
+  const botId = typeof header === 'string' && header ? header : typeof keyId === 'string' ? keyId : '';
+  const verified = keyring.verifyRequest(
+    keyId,
+    req.headers['x-bot-timestamp'],
+    req.headers['x-bot-nonce'],
+    req.headers['x-bot-signature'],
+    botId,
+    req.method || 'GET',
+    path,
+    body
+  );
+  if (!verified) {
+    throw new HttpError(401, 'Authentication failed');
+  }
+  if (!keyring.ownsBot(keyId as string, botId)) {
+    throw new HttpError(403, `Key may not act as bot ${botId}`);
+  }
+  return botId;
+}
+
+function operationError(failure: OperationFailure): HttpError {
+  return new HttpError(OPERATION_STATUS[failure.code], failure.message, undefined, failure.code);
+}
+
+function unwrap(result: OperationResult): Session {
+  if (!result.ok) throw operationError(result);
+  return result.session;
+}
+
+function serializeSession(session: Session): object {
+  return {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    chatId: session.chatId,
+    username: session.username,
+    status: session.status,
+    createdAt: session.createdAt.toISOString(),
+    connectedAt: session.connectedAt?.toISOString() || null,
+    walletConnectedAt: session.walletConnectedAt?.toISOString() || null,
+    stateExpiresAt: session.stateExpiresAt?.toISOString() || null,
+    walletId: session.walletId,
+    txnLink: session.txnLink,
+    disconnectPurpose: session.disconnectPurpose || null,
+    transactionData: session.transactionData || null,
+    transactionRequests: session.transactionRequests.map(request => ({
+      requestId: request.requestId,
+      status: request.status,
+      transactionData: request.transactionData,
+      requestedAt: request.requestedAt.toISOString(),
+      resolvedAt: request.resolvedAt?.toISOString() || null,
+      txHash: request.txHash
+    })),
+    multiTransaction: session.multiTransaction
+      ? {
+          maxTransactions: session.multiTransaction.maxTransactions,
+          expiresAt: session.multiTransaction.expiresAt.toISOString()
+        }
+      : null
+  };
+}
+
+function createRestApi(operations: BotSessionOperations, keyring: BotKeyring, maxBodyBytes: number, log: Logger = logger): RestApi {
+  async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '').split('?')[0];
+    const [, , sessionId, subResource, ...rest] = path.split('/');
+    const method = req.method || 'GET';
+
+    const body = await readBody(req, maxBodyBytes);
+    const botId = authenticate(keyring, req, path, body);
+
+    if (!sessionId) {
+      if (method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+      const params = validateAs('create_session', parseJson(body));
+      const result = operations.createSession(botId, params);
+      if (!result.ok) throw operationError(result);
+
+      const { created } = result;
+      sendJson(res, 201, {
+        sessionId: created.sessionId,
+        token: created.token,
+        tokenExpiresAt: created.tokenExpiresAt.toISOString(),
+        hasTransactionData: !!params.transactionData,
+        disconnectPurpose: params.disconnectPurpose || null,
+        ...(result.replayed && { replayed: true })
+      });
+      return;
+    }
+
+    if (rest.length > 0 || (subResource && subResource !== 'transactions')) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    if (subResource === 'transactions') {
+      if (method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+      const { transactionData, requestId, idempotencyKey } = validateAs('process_transaction', { ...parseJson(body), sessionId });
+      const result = operations.requestTransaction(botId, sessionId, transactionData, requestId, idempotencyKey);
+      if (!result.ok) throw operationError(result);
+      sendJson(res, 202, {
+        sessionId,
+        requestId: result.request.requestId,
+        status: result.session.status,
+        message: 'Transaction sent to frontend for processing',
+        ...(result.replayed && { replayed: true })
+      });
+      return;
+    }
+
+    switch (method) {
+      case 'GET': {
+        const session = operations.findSession(botId, sessionId);
+        if (!session) throw new HttpError(404, 'Invalid session');
+        sendJson(res, 200, { session: serializeSession(session) });
+        return;
+      }
+      case 'DELETE': {
+        const { reason } = parseJson(body);
+        const session = unwrap(operations.cancelSession(botId, sessionId, typeof reason === 'string' && reason ? reason : 'Cancelled by bot'));
+        sendJson(res, 200, { session: serializeSession(session) });
+        return;
+      }
+      default:
+        throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  return {
+    handles: req => /^\/sessions(\/|$|\?)/.test(req.url || ''),
+    handle: (req, res) => {
+      route(req, res).catch(error => {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, {
+            error: error.message,
+            ...(error.code && { code: error.code }),
+            ...(error.errors && { errors: error.errors })
+          });
+          return;
+        }
+        log.error('REST API request failed', { method: req.method, path: req.url, error });
+        sendJson(res, 500, { error: 'Internal server error' });
+      });
+    }
+  };
+}
+
+export {
+  BotSessionOperations,
+  RestApi,
+  HttpError,
+  sendJson,
+  readBody,
+  parseJson,
+  operationError,
+  serializeSession,
+  createRestApi
+};
@@ -0,0 +1,114 @@
+import { Session, SessionStatus } from './types';
+import { Config, stateTimeout } from './config';
+
+// Session lifecycle
+//
+//   created -> connected -> wallet_connected -> tx_pending -> completed | failed
+//
+// Any non-terminal state can also end in `expired` when its timeout runs out. A frontend may
+// report a result straight from connected/wallet_connected when the session was created with
+// transaction data, and a wallet disconnection completes a session from either of those.
+//
+// Multi-transaction sessions go back from tx_pending to wallet_connected after each result and
+// wait there for the next request until their lifetime (capped by MULTI_SESSION_MAX_LIFETIME_MS)
+// runs out. A request that is not signed in time fails on its own and also sends the session back
+// to wallet_connected; only the lifetime expires the session.
+
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  created: ['connected', 'expired'],
+  connected: ['wallet_connected', 'completed', 'failed', 'expired'],
+  wallet_connected: ['tx_pending', 'completed', 'failed', 'expired'],
+  tx_pending: ['wallet_connected', 'completed', 'failed', 'expired'],
+  completed: [],
+  failed: [],
+  expired: []
+};
+
+const TIMEOUT_REASONS: Partial<Record<SessionStatus, string>> = {
+  created: 'Wallet link was not opened in time',
+  connected: 'Wallet was not connected in time',
+  wallet_connected: 'Transaction was not completed in time',
+  tx_pending: 'Transaction was not signed in time'
+};
+
+class SessionTransitionError extends Error {
+  constructor(readonly from: SessionStatus, readonly to: SessionStatus) {
+    super(`Cannot move session from ${from} to ${to}`);
+    this.name = 'SessionTransitionError';
+  }
+}
+
+function isTerminal(status: SessionStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// Deadline for leaving a state entered at `enteredAt`, or null if the state never times out
+function stateDeadline(config: Config, status: SessionStatus, enteredAt: Date = new Date()): Date | null {
+  const timeout = stateTimeout(config, status);
+  return timeout ? new Date(enteredAt.getTime() + timeout) : null;
+}
+
+// End of a multi-transaction session's lifetime, as requested by the bot within the maximum
+function lifetimeDeadline(config: Config, lifetimeMs: number | undefined, createdAt: Date = new Date()): Date {
+  const lifetime = Math.min(lifetimeMs || config.sessions.multiSessionDefaultLifetimeMs, config.sessions.multiSessionMaxLifetimeMs);
+  return new Date(createdAt.getTime() + lifetime);
+}
+
+// Deadline for a session entering `status`, taking a multi-transaction lifetime into account
+function sessionDeadline(config: Config, session: Session, status: SessionStatus, enteredAt: Date = new Date()): Date | null {
+  const deadline = stateDeadline(config, status, enteredAt);
+  const limits = session.multiTransaction;
+  if (!limits || isTerminal(status)) return deadline;
+
+  // Between transactions the session waits for the bot for as long as it lives
+  if (status === 'wallet_connected' || !deadline || deadline.getTime() > limits.expiresAt.getTime()) {
+    return limits.expiresAt;
+  }
+  return deadline;
+}
+
+// Move a session to a new state, throwing SessionTransitionError if that is not allowed
+function transition(config: Config, session: Session, to: SessionStatus, reason?: string): void {
+  if (!canTransition(session.status, to)) {
+    throw new SessionTransitionError(session.status, to);
+  }
+
+  const now = new Date();
+  session.status = to;
+  session.statusChangedAt = now;
+  session.history.push({ status: to, at: now, ...(reason !== undefined && { reason }) });
+  session.stateExpiresAt = sessionDeadline(config, session, to, now);
+}
+
+function isTimedOut(session: Session, now: Date = new Date()): boolean {
+  return !!session.stateExpiresAt && session.stateExpiresAt.getTime() <= now.getTime();
+}
+
+// A multi-transaction session whose pending request ran out of time before its lifetime did
+function isRequestTimeout(session: Session, now: Date = new Date()): boolean {
+  return !!session.multiTransaction && session.status === 'tx_pending' && session.multiTransaction.expiresAt.getTime() > now.getTime();
+}
+
+function timeoutReason(session: Session, now: Date = new Date()): string {
+  if (session.multiTransaction && session.multiTransaction.expiresAt.getTime() <= now.getTime()) {
+    return 'Session lifetime reached';
+  }
+  return TIMEOUT_REASONS[session.status] || 'Session timed out';
+}
+
+export {
+  SessionTransitionError,
+  isTerminal,
+  canTransition,
+  stateDeadline,
+  lifetimeDeadline,
+  sessionDeadline,
+  transition,
+  isTimedOut,
+  isRequestTimeout,
+  timeoutReason
+};
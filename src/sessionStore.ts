@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { Session, SessionStatus } from './types';
+import { normalizeTransaction } from './transactions';
+import { SessionConfig } from './config';
+import { Logger, logger } from './logger';
+
+// Session storage
+//
+// Handlers mutate Session objects in place and then call set() again so that durable
+// backends can record the new state.
+//
+// SESSION_STORE picks the backend: "file" (the default; an append-only log at
+// SESSION_STORE_PATH replayed on startup, so a restart keeps in-flight sessions) or "memory"
+// (lost on restart, for development and tests).
+
+interface SessionStore {
+  readonly size: number;
+  get(sessionId: string): Session | undefined;
+  set(sessionId: string, session: Session): void;
+  delete(sessionId: string): void;
+  values(): Session[];
+}
+
+// Sessions in these states are still usable after a restart; frontends that were attached
+// come back with resume_session
+const RESUMABLE_STATUSES: SessionStatus[] = ['created', 'connected', 'wallet_connected', 'tx_pending'];
+
+// Rewrite the log once it holds this many entries more than there are live sessions
+const COMPACTION_THRESHOLD = 1000;
+
+type LogEntry =
+  | { op: 'set'; session: Session }
+  | { op: 'delete'; sessionId: string };
+
+// In-memory backend (state is lost on restart)
+class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  set(sessionId: string, session: Session): void {
+    this.sessions.set(sessionId, session);
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  values(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+}
+
+// Append-only file backend. Every change is appended as a JSON line; on startup the log is
+// replayed, sessions that can no longer be resumed are dropped and the log is compacted.
+class FileSessionStore extends MemorySessionStore {
+  private logEntries = 0;
+
+  constructor(private readonly filePath: string, private readonly log: Logger = logger) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+    this.compact();
+  }
+
+  set(sessionId: string, session: Session): void {
+    super.set(sessionId, session);
+    this.append({ op: 'set', session });
+  }
+
+  delete(sessionId: string): void {
+    if (!this.get(sessionId)) return;
+    super.delete(sessionId);
+    this.append({ op: 'delete', sessionId });
+  }
+
+  private append(entry: LogEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.logEntries++;
+
+    if (this.logEntries - this.size > COMPACTION_THRESHOLD) {
+      this.compact();
+    }
+  }
+
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const restored = new Map<string, Session>();
+    fs.readFileSync(this.filePath, 'utf8').split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const entry = JSON.parse(line) as LogEntry;
+        if (entry.op === 'set') {
+          restored.set(entry.session.sessionId, reviveSession(entry.session));
+        } else if (entry.op === 'delete') {
+          restored.delete(entry.sessionId);
+        }
+      } catch {
+        // A crash can leave a partially written last line behind
+        this.log.warn('Skipping unreadable session log line', { path: this.filePath, line: index + 1 });
+      }
+    });
+
+    restored.forEach((session, sessionId) => {
+      if (RESUMABLE_STATUSES.includes(session.status)) {
+        super.set(sessionId, session);
+      }
+    });
+  }
+
+  // Rewrite the log with only the current sessions
+  private compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = this.values().map(session => JSON.stringify({ op: 'set', session }) + '\n');
+    fs.writeFileSync(tmpPath, lines.join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    this.logEntries = lines.length;
+  }
+}
+
+function reviveDate(value: any): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function reviveSession(raw: any): Session {
+  return {
+    ...raw,
+    statusChangedAt: new Date(raw.statusChangedAt || raw.createdAt),
+    history: (raw.history || []).map((entry: any) => ({ ...entry, at: new Date(entry.at) })),
+    stateExpiresAt: reviveDate(raw.stateExpiresAt),
+    createdAt: new Date(raw.createdAt),
+    connectedAt: reviveDate(raw.connectedAt),
+    walletConnectedAt: reviveDate(raw.walletConnectedAt),
+    tokenExpiresAt: new Date(raw.tokenExpiresAt),
+    resumeSecretHash: raw.resumeSecretHash || null,
+    walletNonce: raw.walletNonce || null,
+    // Logs written before transactions were normalized hold the bot's { amount, receiver }
+    transactionData: raw.transactionData && !raw.transactionData.actions
+      ? normalizeTransaction(raw.transactionData)
+      : raw.transactionData,
+    transactionRequests: (raw.transactionRequests || []).map((request: any) => ({
+      ...request,
+      requestedAt: new Date(request.requestedAt),
+      resolvedAt: reviveDate(request.resolvedAt)
+    })),
+    multiTransaction: raw.multiTransaction
+      ? { ...raw.multiTransaction, expiresAt: new Date(raw.multiTransaction.expiresAt) }
+      : undefined,
+    retainedUntil: reviveDate(raw.retainedUntil) || undefined
+  };
+}
+
+// Pick the backend configured by SESSION_STORE ("file" or "memory") and SESSION_STORE_PATH
+function createSessionStore(config: SessionConfig, log: Logger = logger): SessionStore {
+  return config.store === 'file' ? new FileSessionStore(config.storePath, log) : new MemorySessionStore();
+}
+
+export {
+  SessionStore,
+  MemorySessionStore,
+  FileSessionStore,
+  reviveSession,
+  createSessionStore
+};
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { SessionConfig } from './config';
+
+// Session tokens
+//
+// The wallet frontend never sees a bare session ID in the link. Instead the bot hands out a
+// token of the form base64url(payload).base64url(HMAC-SHA256(secret, payload)), where the
+// payload carries the session ID, a token ID and an expiry. The session keeps the token ID
+// it expects; once the frontend redeems the token the session forgets it, so a link can only
+// be used once.
+//
+// The secret comes from SESSION_TOKEN_SECRET. Without it each SessionTokenSigner, and so each
+// server instance, makes up a random secret: its tokens stop validating when the process
+// restarts and other instances in the same process do not accept them.
+//
+// Redeeming a token hands the frontend a resume secret. If its socket drops it reconnects with
+// the session ID and that secret instead of the (already used) token. Sessions only keep a
+// SHA-256 hash of the secret, and a new one is issued on every resume.
+
+interface SessionTokenPayload {
+  sid: string; // Session ID
+  jti: string; // Token ID
+  exp: number; // Expiry (ms since epoch)
+}
+
+interface IssuedSessionToken {
+  token: string;
+  tokenId: string;
+  expiresAt: Date;
+}
+
+interface IssuedResumeSecret {
+  secret: string;
+  hash: string;
+}
+
+// Issues and checks session tokens with SESSION_TOKEN_SECRET or a random secret of its own
+class SessionTokenSigner {
+  private readonly secret: string;
+
+  constructor(private readonly config: SessionConfig) {
+    this.secret = config.tokenSecret || crypto.randomBytes(32).toString('hex');
+  }
+
+  get hasConfiguredSecret(): boolean {
+    return this.config.tokenSecret !== null;
+  }
+
+  issue(sessionId: string): IssuedSessionToken {
+    const payload: SessionTokenPayload = {
+      sid: sessionId,
+      jti: crypto.randomBytes(16).toString('hex'),
+      exp: Date.now() + this.config.tokenTtlMs
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      token: `${encodedPayload}.${this.sign(encodedPayload)}`,
+      tokenId: payload.jti,
+      expiresAt: new Date(payload.exp)
+    };
+  }
+
+  // Check signature and expiry. Whether the token is still unused is up to the session.
+  verify(token: unknown): SessionTokenPayload | null {
+    if (typeof token !== 'string') return null;
+
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(encodedPayload));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) return null;
+
+    try {
+      const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+      if (typeof payload.sid !== 'string' || typeof payload.jti !== 'string' || typeof payload.exp !== 'number') {
+        return null;
+      }
+      if (payload.exp < Date.now()) return null;
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(encodedPayload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(encodedPayload).digest('base64url');
+  }
+}
+
+function hashResumeSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function issueResumeSecret(): IssuedResumeSecret {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { secret, hash: hashResumeSecret(secret) };
+}
+
+function verifyResumeSecret(secret: unknown, expectedHash: string | null): boolean {
+  if (typeof secret !== 'string' || !expectedHash) return false;
+
+  const expected = Buffer.from(expectedHash, 'hex');
+  const provided = Buffer.from(hashResumeSecret(secret), 'hex');
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+export {
+  SessionTokenPayload,
+  IssuedSessionToken,
+  IssuedResumeSecret,
+  SessionTokenSigner,
+  issueResumeSecret,
+  verifyResumeSecret
+};
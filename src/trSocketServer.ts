@@ -0,0 +1,2230 @@
+import { WebSocketServer, WebSocket as WSWebSocket, VerifyClientCallbackAsync } from 'ws';
+import http from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import { BotChallenge, BotKeyring, createBotChallenge } from './botAuth';
+import { SessionTokenSigner, issueResumeSecret, verifyResumeSecret } from './sessionTokens';
+import { SessionStore, createSessionStore } from './sessionStore';
+import { verifyTransaction } from './txVerification';
+import { newWalletNonce, walletChallenge, verifyWalletProof } from './walletProof';
+import { SessionTransitionError, isTerminal, canTransition, lifetimeDeadline, sessionDeadline, transition, isTimedOut, isRequestTimeout, timeoutReason } from './sessionState';
+import { BotQueueStats, createBotOutbox } from './botQueue';
+import {
+  BotNotification,
+  OutboundMessage,
+  InboundMessage,
+  BotConnectMessage,
+  BotAuthMessage,
+  BotAckMessage,
+  CreateSessionMessage,
+  CreateDisconnectSessionMessage,
+  ProcessTransactionMessage,
+  CloseSessionMessage,
+  InitSessionMessage,
+  ResumeSessionMessage,
+  WalletConnectedMessage,
+  WalletDisconnectedMessage,
+  TransactionResultMessage,
+  TransactionResultReceivedMessage,
+  TransactionData,
+  NormalizedTransaction,
+  LimitErrorCode,
+  validateInbound
+} from './protocol';
+import { LifecycleEvents, LifecycleEventName, SessionEventBase } from './events';
+import { createWebhookDispatcher } from './webhooks';
+import { createRestApi } from './restApi';
+import { AdminBotInfo, createAdminApi } from './adminApi';
+import { Liveness, createHeartbeat } from './heartbeat';
+import { normalizeTransaction, describeTransaction } from './transactions';
+import { MessageWindow, exceeds, clientAddress, ConnectionTracker, allowMessage, RejectionCounters } from './limits';
+import { Config, getConfig } from './config';
+import { createServerMetrics, purposeLabel, METRICS_CONTENT_TYPE } from './metrics';
+import { Logger, logger, createLogger } from './logger';
+import { LedgerEntry, createLedger } from './ledger';
+import { ClusterAdapter, ClusterMessage, ReplicatedSessionStore, SweeperElection, createClusterAdapter } from './cluster';
+import { IdempotencyCache, fingerprint, lookupFailure } from './idempotency';
+import { Session, SessionStatus, TransactionRequest, CreateSessionParams, CreatedSession, CreateSessionResult, OperationFailure, OperationResult, TransactionRequestResult } from './types';
+
+// Embeddable server
+//
+// createTrSocketServer() builds a server with its own sessions, connections, bot queue,
+// ledger, metrics and event bus, so a bot process can embed one and tests can run several
+// side by side. Nothing listens until listen() or attach() is called:
+//
+//   const trsocket = createTrSocketServer();
+//   await trsocket.listen(3001);
+//
+// or, next to an Express app:
+//
+//   app.use(trsocket.handleRequest);
+//   trsocket.attach(app.listen(3001));
+//
+// The configuration defaults to the process configuration (environment and CONFIG_FILE).
+// Each instance logs with its own config.logging and, without SESSION_TOKEN_SECRET, signs
+// session tokens with its own random secret. server.ts runs a single instance as the
+// standalone service.
+
+interface TrSocketServerOptions {
+  // Defaults to getConfig()
+  config?: Config;
+  // Used instead of the adapter CLUSTER_ADAPTER selects, e.g. an InProcessClusterBus member
+  cluster?: ClusterAdapter;
+}
+
+interface TrSocketServer {
+  readonly config: Config;
+  // Serve the WebSocket endpoint and the HTTP routes on a new HTTP server (default config.port)
+  listen(port?: number): Promise<http.Server>;
+  // Accept WebSocket connections on an existing HTTP server; mount handleRequest for the routes
+  attach(server: http.Server): void;
+  // HTTP routes; as Express middleware (with next) other paths are passed on
+  handleRequest(req: http.IncomingMessage, res: http.ServerResponse, next?: () => void): void;
+  // Graceful shutdown (see drainAndClose)
+  close(reason?: string): Promise<void>;
+  on<K extends LifecycleEventName>(event: K, callback: (data: LifecycleEvents[K]) => void): void;
+  emit<K extends LifecycleEventName>(event: K, data: LifecycleEvents[K]): void;
+  // Create a session outside the bot protocols; botId makes a bot its owner
+  createSession(userId: string, chatId: string, username: string, disconnectPurpose?: string, botId?: string): { sessionId: string; token: string };
+  getSession(sessionId: string): Session | undefined;
+  getAllSessions(): Session[];
+  getStats(): ServerStats;
+  // Reload BOT_AUTH_KEYS / BOT_AUTH_KEYS_FILE, e.g. on SIGHUP
+  reloadBotKeys(): void;
+}
+
+// Interfaces
+
+// Heartbeat state of one kind of connection, summed up
+interface LivenessSummary {
+  connections: number;
+  // Connections that missed at least one ping
+  unresponsive: number;
+  oldestLastSeenAt: string | null;
+}
+
+// Served unauthenticated at /status, so it only holds totals: no session, connection or bot IDs
+interface ServerStats {
+  activeSessions: number;
+  activeConnections: number;
+  uptime: number;
+  // Requests rejected by resource limits, by error code
+  rejections: Record<LimitErrorCode, number>;
+  liveness: {
+    frontends: LivenessSummary;
+    bots: LivenessSummary;
+  };
+  memory: {
+    used: number;
+    total: number;
+    external: number;
+  };
+  botQueues: {
+    queues: number;
+    depth: number;
+    dropped: number;
+    oldestAgeMs: number | null;
+  };
+  cluster: {
+    instanceId: string;
+    remoteBots: number;
+  } | null;
+  timestamp: string;
+  nodeVersion: string;
+  platform: string;
+}
+
+function sessionEventBase(session: Session): SessionEventBase {
+  return {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    chatId: session.chatId,
+    username: session.username,
+    botId: session.botId,
+    timestamp: new Date().toISOString()
+  };
+}
+
+// Ledger fields that come from the session itself
+function ledgerSessionFields(session: Session): Pick<LedgerEntry,
+  'sessionId' | 'botId' | 'userId' | 'chatId' | 'username' | 'walletId' | 'disconnectPurpose' | 'sessionCreatedAt'> {
+  return {
+    sessionId: session.sessionId,
+    botId: session.botId || null,
+    userId: session.userId,
+    chatId: session.chatId,
+    username: session.username,
+    walletId: session.walletId,
+    disconnectPurpose: session.disconnectPurpose || null,
+    sessionCreatedAt: session.createdAt
+  };
+}
+
+// What a create_session retry has to repeat to get the original session back
+function createSessionPayload(params: CreateSessionParams): object {
+  return {
+    sessionId: params.sessionId,
+    userId: String(params.userId),
+    chatId: String(params.chatId),
+    username: params.username,
+    transactionData: params.transactionData,
+    disconnectPurpose: params.disconnectPurpose,
+    multiTransaction: params.multiTransaction
+  };
+}
+
+// Message handling
+const BOT_ONLY_MESSAGES = new Set<InboundMessage['type']>(['create_session', 'create_disconnect_session', 'process_transaction', 'close_session', 'bot_ack']);
+
+// What the server keeps on each socket
+interface SocketState {
+  connectionId: string;
+  connectedAt: Date;
+  clientAddress: string;
+  messageWindow: MessageWindow;
+  log?: Logger;
+  cleanedUp?: boolean;
+  // Wallet frontends: the session the socket is attached to
+  sessionId?: string;
+  // Bots, once authenticated
+  botId?: string;
+  botKeyId?: string;
+  // Bots during the handshake
+  botChallenge?: BotChallenge;
+  requestedBotId?: string | null;
+  requestedLastSeq?: number;
+  requestedQueueEpoch?: string | null;
+}
+
+type ServerSocket = WSWebSocket & SocketState;
+
+// Logger carrying the connection's correlation IDs (connectionId, plus botId or sessionId once known)
+function connectionLog(ws: ServerSocket): Logger {
+  return ws.log || logger;
+}
+
+function sendMessage(ws: WSWebSocket, message: OutboundMessage): void {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendOperationError(ws: ServerSocket, failure: OperationFailure): void {
+  sendMessage(ws, {
+    type: 'error',
+    message: failure.message,
+    code: failure.code,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function rejectTransition(ws: ServerSocket, from: SessionStatus, to: SessionStatus): void {
+  const error = new SessionTransitionError(from, to);
+  connectionLog(ws).warn('Rejected session transition', { from, to });
+  sendMessage(ws, {
+    type: 'error',
+    message: error.message,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// A request still open when the session ends will never get a result
+function failPendingRequest(session: Session): void {
+  const request = pendingRequest(session);
+  if (!request) return;
+  request.status = 'failed';
+  request.resolvedAt = new Date();
+}
+
+function newTransactionRequest(transactionData: NormalizedTransaction, requestId: string = uuidv4()): TransactionRequest {
+  return {
+    requestId,
+    status: 'pending',
+    transactionData,
+    requestedAt: new Date(),
+    resolvedAt: null,
+    txHash: null
+  };
+}
+
+// The request awaiting a result from the frontend, if any
+function pendingRequest(session: Session): TransactionRequest | undefined {
+  return session.transactionRequests.find(request => request.status === 'pending');
+}
+
+// Whether a multi-transaction session waits for another request once `resolved` requests ended
+function acceptsMoreRequests(session: Session, resolved: number): boolean {
+  const limits = session.multiTransaction;
+  return !!limits && (limits.maxTransactions === null || resolved < limits.maxTransactions);
+}
+
+function createTrSocketServer(options: TrSocketServerOptions = {}): TrSocketServer {
+  const config = options.config || getConfig();
+  // Logs with this instance's settings; shadows the process-wide logger in here
+  const logger = createLogger(config.logging);
+
+  // Instance state
+  const cluster = options.cluster || createClusterAdapter(config.cluster, logger);
+  const store = createSessionStore(config.sessions, logger);
+  const sessions: SessionStore = cluster ? new ReplicatedSessionStore(store, cluster) : store;
+  // In a cluster only the elected instance expires and cleans up the shared sessions
+  const sweeper = cluster ? new SweeperElection(cluster, config.cluster.sweeperMaxMissed * config.intervals.timeoutCheckMs) : null;
+  const connections = new Map<string, ServerSocket>();
+  const events: { [K in LifecycleEventName]?: ((data: LifecycleEvents[K]) => void)[] } = {};
+  const botConnections = new Map<string, Set<ServerSocket>>(); // Track bot connections by bot identity
+  const remoteBots = new Map<string, string>(); // Bots connected to other instances: bot identity -> instance ID
+  const botOutbox = createBotOutbox(config.botQueue, logger);
+  const ledger = createLedger(config.ledger, logger);
+  // Hashes of transactions credited to a request, seeded from the ledger so a restart does not
+  // make an old payment creditable again
+  const creditedTxHashes = new Set<string>();
+  ledger.query({ success: true }).forEach(entry => {
+    if (entry.txHash) creditedTxHashes.add(entry.txHash);
+  });
+  // Responses kept for idempotent retries
+  const createdSessions = new IdempotencyCache<CreatedSession>(config.idempotency);
+  const requestedTransactions = new IdempotencyCache<{ session: Session; request: TransactionRequest }>(config.idempotency);
+  const transactionResults = new IdempotencyCache<TransactionResultReceivedMessage>(config.idempotency);
+  const keyring = new BotKeyring(config.botAuth);
+  const tokens = new SessionTokenSigner(config.sessions);
+  const heartbeat = createHeartbeat(config.heartbeat, ws => cleanupConnection(ws as ServerSocket), logger);
+  const webhooks = createWebhookDispatcher(config.webhooks, logger);
+  const limits = config.limits;
+  const connectionsPerIp = new ConnectionTracker(limits.maxConnectionsPerIp);
+  const rejections = new RejectionCounters();
+  const metrics = createServerMetrics({
+    sessionsByStatus: countSessionsByStatus,
+    botConnections: countBotConnections,
+    frontendConnections: () => connections.size
+  });
+  const restApi = createRestApi({
+    createSession: createBotSession,
+    findSession: findBotSession,
+    requestTransaction,
+    cancelSession
+  }, keyring, config.limits.maxPayloadBytes, logger);
+  const adminApi = createAdminApi({
+    listSessions: () => sessions.values(),
+    findSession: sessionId => sessions.get(sessionId),
+    expireSession: forceExpireSession,
+    listBots,
+    disconnectBot,
+    queryLedger: query => ledger.query(query)
+  }, config.admin.token, config.limits.maxPayloadBytes, logger);
+  let wss: WebSocketServer | null = null; // Set by attach
+  let ownServer: http.Server | null = null; // Set by listen
+  let timers: NodeJS.Timeout[] = []; // Started by attach
+  const cleanupTimers = new Set<NodeJS.Timeout>(); // Delayed removal of finished sessions, cleared by close
+  let shuttingDown = false; // Set when a graceful shutdown starts; new connections, sessions and transactions are refused
+  let closing: Promise<void> | null = null;
+
+  if (sessions.size > 0) {
+    logger.info('Restored in-flight sessions', { count: sessions.size });
+  }
+
+  if (webhooks) {
+    webhooks.subscribedEvents.forEach(event => on(event, data => webhooks.dispatch(event, data)));
+    logger.info('Webhooks enabled', { events: webhooks.subscribedEvents });
+  }
+
+  reloadBotKeys();
+
+  if (cluster) {
+    cluster.subscribe(handleClusterMessage);
+    cluster.publish({ type: 'instance_started' });
+    if (sessions instanceof ReplicatedSessionStore) sessions.publishSnapshot();
+    logger.info('Cluster enabled', { adapter: options.cluster ? 'custom' : config.cluster.adapter, instanceId: cluster.instanceId });
+  }
+
+  if (!tokens.hasConfiguredSecret) {
+    logger.warn('SESSION_TOKEN_SECRET not set, session tokens will not survive a restart');
+  }
+
+  // Event system
+  function on<K extends LifecycleEventName>(event: K, callback: (data: LifecycleEvents[K]) => void): void {
+    if (!events[event]) events[event] = [];
+    events[event]!.push(callback);
+  }
+
+  function emit<K extends LifecycleEventName>(event: K, data: LifecycleEvents[K]): void {
+    events[event]?.forEach(callback => {
+      try {
+        callback(data);
+      } catch (error) {
+        logger.error('Event callback failed', { event, error });
+      }
+    });
+  }
+
+  function countBotConnections(): number {
+    let total = 0;
+    botConnections.forEach(sockets => total += sockets.size);
+    return total;
+  }
+
+  function removeBotConnection(ws: ServerSocket): void {
+    const botId = ws.botId;
+    const sockets = botId && botConnections.get(botId);
+    if (!botId || !sockets) return;
+
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      botConnections.delete(botId);
+      cluster?.publish({ type: 'bot_presence', botId, connected: false });
+    }
+  }
+
+  // Send message to the connections of the bot that owns a session.
+  // Messages for a bot are queued with a sequence number until the bot acknowledges them, so
+  // nothing is lost while the bot is offline. Sessions without an owner (created through the
+  // embedding API) are broadcast to every connected bot without queueing.
+  // In a cluster, a bot connected only to another instance gets the message through that instance.
+  function sendToBot(botId: string | undefined, message: BotNotification): void {
+    if (cluster && !botId) {
+      cluster.publish({ type: 'bot_notification', to: null, message });
+      if (botConnections.size === 0 && remoteBots.size > 0) return;
+    }
+
+    const remoteInstance = botId && remoteBots.get(botId);
+    if (cluster && remoteInstance && !botConnections.has(botId!)) {
+      logger.debug('Forwarding bot notification', { botId, type: message.type, instanceId: remoteInstance });
+      cluster.publish({ type: 'bot_notification', to: remoteInstance, botId, message });
+      return;
+    }
+
+    deliverToBot(botId, message);
+  }
+
+  // Deliver to the bot's connections on this instance, queueing owned messages for replay
+  function deliverToBot(botId: string | undefined, message: BotNotification): void {
+    const targets: ServerSocket[] = [];
+    botConnections.forEach((sockets, id) => {
+      if (!botId || id === botId) sockets.forEach(ws => targets.push(ws));
+    });
+
+    const payload = botId ? { ...message, seq: botOutbox.enqueue(botId, message).seq } : message;
+
+    logger.debug('Sending bot notification', { botId: botId || 'all', type: message.type, connections: targets.length });
+
+    if (targets.length === 0) {
+      metrics.botMessagesUndelivered.inc({ type: message.type, outcome: botId ? 'queued' : 'dropped' });
+      logger.warn(botId ? 'No bot connection available, notification queued for replay' : 'No bot connection available, notification dropped', { botId, type: message.type });
+      return;
+    }
+
+    targets.forEach(ws => {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify(payload));
+      } else {
+        connectionLog(ws).warn('Bot connection not open, removing it');
+        removeBotConnection(ws);
+      }
+    });
+  }
+
+  // Resend everything the bot has not acknowledged yet. A lastSeq from another queue epoch
+  // (a restart with BOT_QUEUE_STORE=memory, or another instance) says nothing about this queue.
+  function replayBotQueue(ws: ServerSocket, botId: string, lastSeq: number, queueEpoch: string | null): void {
+    if (lastSeq > 0 && queueEpoch !== botOutbox.epoch(botId)) {
+      connectionLog(ws).info('Bot reported lastSeq for another queue epoch, replaying the whole queue', { lastSeq, queueEpoch });
+      lastSeq = 0;
+    }
+    if (lastSeq > 0) botOutbox.ack(botId, lastSeq);
+
+    const pending = botOutbox.pending(botId, lastSeq);
+    if (pending.length === 0) return;
+
+    connectionLog(ws).info('Replaying queued bot notifications', { count: pending.length });
+    pending.forEach(entry => sendMessage(ws, { ...entry.message, seq: entry.seq, replayed: true }));
+  }
+
+  function handleMessage(ws: ServerSocket, raw: string): void {
+    // Drop messages over the per-socket rate; the first dropped message in a window gets a reply
+    const window: MessageWindow = ws.messageWindow;
+    if (!allowMessage(window, limits.maxMessagesPerSecond)) {
+      rejections.increment('rate_limited');
+      if (window.count === limits.maxMessagesPerSecond + 1) {
+        connectionLog(ws).warn('Rate limiting connection', { clientAddress: ws.clientAddress });
+        sendMessage(ws, {
+          type: 'error',
+          message: 'Too many messages, slow down',
+          code: 'rate_limited',
+          timestamp: new Date().toISOString()
+        });
+      }
+      return;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      connectionLog(ws).warn('Could not parse message', { error });
+      metrics.messagesRejected.inc({ reason: 'unparseable' });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid message format',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const validation = validateInbound(parsed);
+    if (!validation.ok) {
+      metrics.messagesRejected.inc({ reason: validation.unknownType ? 'unknown_type' : 'invalid' });
+      connectionLog(ws).warn(validation.unknownType ? 'Unknown message type' : 'Invalid message', { type: parsed?.type, errors: validation.errors });
+      sendMessage(ws, {
+        type: 'error',
+        message: validation.unknownType ? 'Unknown message type' : 'Invalid message',
+        errors: validation.errors,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const data = validation.message;
+    metrics.messages.inc({ type: data.type });
+    try {
+      connectionLog(ws).debug('Received message', {
+        type: data.type,
+        from: ws.botId ? 'bot' : 'client',
+        ...('sessionId' in data && data.sessionId && { sessionId: data.sessionId })
+      });
+
+      if (BOT_ONLY_MESSAGES.has(data.type) && !ws.botId) {
+        connectionLog(ws).warn('Rejected bot message from unauthenticated connection', { type: data.type });
+        metrics.messagesRejected.inc({ reason: 'unauthorized' });
+        sendMessage(ws, {
+          type: 'error',
+          message: 'Not authorized',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      switch (data.type) {
+        case 'bot_connect':
+          handleBotConnect(ws, data);
+          break;
+        case 'bot_auth':
+          handleBotAuth(ws, data);
+          break;
+        case 'bot_ack':
+          handleBotAck(ws, data);
+          break;
+        case 'create_session':
+          handleCreateSession(ws, data);
+          break;
+        case 'create_disconnect_session':
+          handleCreateDisconnectSession(ws, data);
+          break;
+        case 'init_session':
+          handleInitSession(ws, data);
+          break;
+        case 'resume_session':
+          handleResumeSession(ws, data);
+          break;
+        case 'wallet_connected':
+          handleWalletConnected(ws, data).catch(error => {
+            connectionLog(ws).error('Wallet connection handling failed', { sessionId: data.sessionId, error });
+          });
+          break;
+        case 'wallet_disconnected':
+          handleWalletDisconnected(ws, data);
+          break;
+        case 'process_transaction':
+          handleProcessTransaction(ws, data);
+          break;
+        case 'close_session':
+          handleCloseSession(ws, data);
+          break;
+        case 'transaction_result':
+          handleTransactionResult(ws, data).catch(error => {
+            connectionLog(ws).error('Transaction result handling failed', { sessionId: data.sessionId, error });
+          });
+          break;
+        case 'ping':
+          sendMessage(ws, { 
+            type: 'pong',
+            timestamp: new Date().toISOString()
+          });
+          break;
+      }
+    } catch (error) {
+      connectionLog(ws).error('Message handling failed', { type: data.type, error });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Internal error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Handle bot connection - issue an authentication challenge
+  function handleBotConnect(ws: ServerSocket, data: BotConnectMessage): void {
+    if (ws.botId) {
+      sendMessage(ws, {
+        type: 'bot_connected',
+        botId: ws.botId,
+        queueEpoch: botOutbox.epoch(ws.botId),
+        message: 'Bot connection established',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const challenge = createBotChallenge();
+    ws.botChallenge = challenge;
+    // Identity the bot wants to act as once authenticated; defaults to its key ID
+    ws.requestedBotId = data.botId || null;
+    // Last sequence number the bot received before reconnecting
+    ws.requestedLastSeq = data.lastSeq || 0;
+    ws.requestedQueueEpoch = data.queueEpoch || null;
+
+    sendMessage(ws, {
+      type: 'bot_challenge',
+      nonce: challenge.nonce,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle bot challenge response
+  function handleBotAuth(ws: ServerSocket, data: BotAuthMessage): void {
+    const { keyId, signature } = data;
+    const challenge = ws.botChallenge;
+
+    // A challenge can only be answered once
+    delete ws.botChallenge;
+
+    if (!keyring.verifyResponse(challenge, keyId, signature)) {
+      connectionLog(ws).warn('Bot authentication failed', { keyId });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Authentication failed',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const botId = ws.requestedBotId || keyId;
+    const lastSeq = ws.requestedLastSeq || 0;
+    const queueEpoch = ws.requestedQueueEpoch || null;
+    delete ws.requestedBotId;
+    delete ws.requestedLastSeq;
+    delete ws.requestedQueueEpoch;
+
+    if (!keyring.ownsBot(keyId, botId)) {
+      connectionLog(ws).warn('Bot key may not act as the requested bot', { keyId, botId });
+      sendMessage(ws, {
+        type: 'error',
+        message: `Key ${keyId} may not act as bot ${botId}`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    ws.botKeyId = keyId;
+    ws.botId = botId;
+    ws.log = connectionLog(ws).child({ botId });
+    if (!botConnections.has(botId)) {
+      botConnections.set(botId, new Set());
+      cluster?.publish({ type: 'bot_presence', botId, connected: true });
+    }
+    botConnections.get(botId)!.add(ws);
+    connectionLog(ws).info('Bot authenticated', { keyId, botConnections: countBotConnections() });
+
+    sendMessage(ws, {
+      type: 'bot_connected',
+      botId,
+      queueEpoch: botOutbox.epoch(botId),
+      message: 'Bot connection established',
+      timestamp: new Date().toISOString()
+    });
+
+    replayBotQueue(ws, botId, lastSeq, queueEpoch);
+
+    emit('bot_connected', { botId, keyId, timestamp: new Date().toISOString() });
+  }
+
+  // Handle acknowledgement of queued bot messages
+  function handleBotAck(ws: ServerSocket, data: BotAckMessage): void {
+    if (!ws.botId) return;
+    if (data.queueEpoch && data.queueEpoch !== botOutbox.epoch(ws.botId)) {
+      connectionLog(ws).warn('Ignoring ack for another queue epoch', { seq: data.seq, queueEpoch: data.queueEpoch });
+      return;
+    }
+    botOutbox.ack(ws.botId, data.seq);
+  }
+
+  // Handle session creation from bot
+  function handleCreateSession(ws: ServerSocket, data: CreateSessionMessage): void {
+    const result = createBotSession(ws.botId, data);
+    if (!result.ok) {
+      sendOperationError(ws, result);
+      return;
+    }
+
+    const { sessionId, token, tokenExpiresAt } = result.created;
+
+    sendMessage(ws, {
+      type: 'session_created',
+      sessionId,
+      token,
+      tokenExpiresAt: tokenExpiresAt.toISOString(),
+      hasTransactionData: !!data.transactionData,
+      disconnectPurpose: data.disconnectPurpose || null,
+      ...(result.replayed && { replayed: true }),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle disconnect session creation from bot
+  function handleCreateDisconnectSession(ws: ServerSocket, data: CreateDisconnectSessionMessage): void {
+    // Disconnect session (no transaction data, just for wallet disconnection)
+    const result = createBotSession(ws.botId, {
+      ...data,
+      disconnectPurpose: 'wallet_disconnect'
+    });
+    if (!result.ok) {
+      sendOperationError(ws, result);
+      return;
+    }
+
+    const { sessionId, token, tokenExpiresAt } = result.created;
+
+    sendMessage(ws, {
+      type: 'disconnect_session_created',
+      sessionId,
+      token,
+      tokenExpiresAt: tokenExpiresAt.toISOString(),
+      purpose: 'wallet_disconnect',
+      ...(result.replayed && { replayed: true }),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle wallet disconnection
+  function handleWalletDisconnected(ws: ServerSocket, data: WalletDisconnectedMessage): void {
+    const { sessionId, reason } = data;
+    const log = connectionLog(ws).child({ sessionId });
+
+    const session = getOwnedSession(ws, sessionId);
+    if (!session) {
+      log.warn('Wallet disconnection for an unknown session');
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    log.info('Processing wallet disconnection', {
+      userId: session.userId,
+      walletId: session.walletId,
+      reason: reason || 'User requested'
+    });
+
+    // Close the session (one-time use)
+    if (!applyTransition(ws, session, 'completed', reason || 'Wallet disconnected')) return;
+    failPendingRequest(session);
+    sessions.set(sessionId, session);
+
+    ledger.record({
+      outcome: 'wallet_disconnected',
+      ...ledgerSessionFields(session),
+      requestId: null,
+      transactionData: session.transactionData || null,
+      success: true,
+      txHash: null,
+      error: reason || null,
+      requestedAt: null
+    });
+
+    // Prepare disconnection data for bot
+    const disconnectData: BotNotification = {
+      type: 'wallet_disconnected',
+      userId: session.userId,
+      chatId: session.chatId,
+      username: session.username,
+      walletId: session.walletId,
+      sessionId,
+      reason: reason || 'User requested disconnection',
+      timestamp: new Date().toISOString()
+    };
+
+    sendToBot(session.botId, disconnectData);
+
+    emit('wallet_disconnected', {
+      ...sessionEventBase(session),
+      walletId: session.walletId,
+      reason: reason || 'User requested disconnection'
+    });
+
+    // Send confirmation back to frontend
+    sendMessage(ws, {
+      type: 'wallet_disconnection_received',
+      message: 'Wallet disconnection confirmed. Notification sent to bot.',
+      timestamp: new Date().toISOString()
+    });
+
+    log.info('Wallet disconnection processed');
+
+    // Clean up the session after a short delay
+    scheduleSessionCleanup(sessionId, config.sessions.disconnectCleanupDelayMs, () => log.info('Cleaned up disconnect session'));
+  }
+
+  // Keep a finished session until its cached transaction result expires
+  function retainForReplay(sessionId: string): void {
+    const session = sessions.get(sessionId);
+    if (!session || !isTerminal(session.status)) return;
+    session.retainedUntil = new Date(Date.now() + config.idempotency.ttlMs);
+    sessions.set(sessionId, session);
+  }
+
+  function isRetained(session: Session, now: Date = new Date()): boolean {
+    return !!session.retainedUntil && session.retainedUntil.getTime() > now.getTime();
+  }
+
+  // Remove a finished session once late messages for it have had time to arrive. Retained
+  // sessions are left to the cleanup sweep.
+  function scheduleSessionCleanup(sessionId: string, delayMs: number, onCleanup: () => void): void {
+    const timer = setTimeout(() => {
+      cleanupTimers.delete(timer);
+      const session = sessions.get(sessionId);
+      if (session && isRetained(session)) return;
+      onCleanup();
+      sessions.delete(sessionId);
+      connections.delete(sessionId);
+    }, delayMs);
+    cleanupTimers.add(timer);
+  }
+
+  // Session management
+
+  // Look up the session a frontend token was issued for, provided the token is still outstanding
+  function findSessionByToken(token: unknown): Session | undefined {
+    const payload = tokens.verify(token);
+    if (!payload) return undefined;
+
+    const session = sessions.get(payload.sid);
+    if (!session || !session.tokenId || session.tokenId !== payload.jti) return undefined;
+    return session;
+  }
+
+  // Send to the session's frontend, through the cluster when it is not attached here.
+  // Returns whether the frontend was reached on this instance.
+  function sendToFrontend(sessionId: string, message: OutboundMessage): boolean {
+    const ws = connections.get(sessionId);
+    if (ws) {
+      sendMessage(ws, message);
+      return true;
+    }
+    cluster?.publish({ type: 'frontend_message', sessionId, message });
+    return false;
+  }
+
+  // Close this instance's socket for a session whose frontend attached somewhere else
+  function detachFrontend(sessionId: string): void {
+    const ws = connections.get(sessionId);
+    if (!ws) return;
+    connections.delete(sessionId);
+    ws.sessionId = undefined;
+    ws.terminate();
+  }
+
+  // Frontend messages only apply to the session the connection redeemed a token for
+  function getOwnedSession(ws: ServerSocket, sessionId: string): Session | undefined {
+    if (ws.sessionId !== sessionId) return undefined;
+    return sessions.get(sessionId);
+  }
+
+  // Move a session to a new state and persist it, replying with an error if the move is illegal
+  function applyTransition(ws: ServerSocket, session: Session, to: SessionStatus, reason?: string): boolean {
+    if (!canTransition(session.status, to)) {
+      rejectTransition(ws, session.status, to);
+      return false;
+    }
+
+    transition(config, session, to, reason);
+    sessions.set(session.sessionId, session);
+    return true;
+  }
+
+  // Expire a session whose current state ran out of time and tell the bot and frontend why
+  function expireSession(session: Session, reason: string): void {
+    const { sessionId } = session;
+    const previousState = session.status;
+
+    transition(config, session, 'expired', reason);
+    failPendingRequest(session);
+    sessions.set(sessionId, session);
+
+    logger.info('Session expired', { sessionId, state: previousState, reason });
+
+    sendToBot(session.botId, {
+      type: 'session_expired',
+      userId: session.userId,
+      chatId: session.chatId,
+      username: session.username,
+      sessionId,
+      state: previousState,
+      reason,
+      timestamp: new Date().toISOString()
+    });
+
+    sendToFrontend(sessionId, {
+      type: 'session_expired',
+      sessionId,
+      reason,
+      timestamp: new Date().toISOString()
+    });
+
+    emit('session_expired', { ...sessionEventBase(session), state: previousState, reason });
+  }
+
+  // Fail a multi-transaction request that was not signed in time; the session goes back to
+  // waiting for the next request unless that was the last one allowed
+  function expireRequest(session: Session, reason: string): void {
+    const { sessionId } = session;
+    const request = pendingRequest(session);
+    const resolvedCount = session.transactionRequests.filter(r => r.status !== 'pending').length + 1;
+    const keepOpen = acceptsMoreRequests(session, resolvedCount);
+
+    transition(config, session, keepOpen ? 'wallet_connected' : 'failed', reason);
+    failPendingRequest(session);
+    sessions.set(sessionId, session);
+
+    const requestId = request?.requestId;
+    logger.info('Transaction request expired', { sessionId, requestId, reason, sessionClosed: !keepOpen });
+
+    sendToBot(session.botId, {
+      type: 'transaction_completed',
+      success: false,
+      verified: false,
+      userId: session.userId,
+      chatId: session.chatId,
+      username: session.username,
+      sessionId,
+      disconnectPurpose: session.disconnectPurpose,
+      timestamp: new Date().toISOString(),
+      ...(requestId && { requestId }),
+      ...(session.walletId && { walletId: session.walletId }),
+      error: reason
+    });
+
+    if (requestId) {
+      sendToFrontend(sessionId, {
+        type: 'transaction_request_expired',
+        requestId,
+        reason,
+        sessionClosed: !keepOpen,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    emit('transaction_completed', {
+      ...sessionEventBase(session),
+      success: false,
+      verified: false,
+      walletId: session.walletId,
+      ...(requestId && { requestId }),
+      error: reason
+    });
+
+    if (keepOpen) return;
+
+    scheduleSessionCleanup(sessionId, config.sessions.resultCleanupDelayMs, () =>
+      logger.info('Cleaned up finished session', { sessionId, purpose: sessions.get(sessionId)?.disconnectPurpose })
+    );
+  }
+
+  function handleInitSession(ws: ServerSocket, data: InitSessionMessage): void {
+    const session = findSessionByToken(data.token);
+    if (!session || isTerminal(session.status)) {
+      connectionLog(ws).warn('Invalid, used or expired session token');
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid or expired session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const { sessionId } = session;
+
+    // Prevent multiple connections to the same session; a dropped frontend uses resume_session
+    if (session.status !== 'created') {
+      connectionLog(ws).warn('Session already in use', { sessionId });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Session already in use, reconnect with resume_session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    connections.set(sessionId, ws);
+    ws.sessionId = sessionId;
+    ws.log = connectionLog(ws).child({ sessionId });
+    cluster?.publish({ type: 'frontend_attached', sessionId });
+
+    // Tokens are single-use; from here on the frontend proves itself with the resume secret
+    const resume = issueResumeSecret();
+    session.tokenId = null;
+    session.resumeSecretHash = resume.hash;
+    session.walletNonce = newWalletNonce();
+    session.connectedAt = new Date();
+    transition(config, session, 'connected');
+    sessions.set(sessionId, session);
+
+    connectionLog(ws).info('Session initialized', {
+      userId: session.userId,
+      ...(session.transactionData && { transaction: describeTransaction(session.transactionData) })
+    });
+
+    sendMessage(ws, {
+      type: 'session_initialized',
+      userId: session.userId,
+      username: session.username,
+      sessionId: sessionId,
+      transactionData: session.transactionData || null,
+      disconnectPurpose: session.disconnectPurpose || null,
+      walletChallenge: walletChallenge(config.walletProof, session.walletNonce),
+      resumeSecret: resume.secret,
+      timestamp: new Date().toISOString()
+    });
+
+    emit('frontend_attached', { ...sessionEventBase(session), resumed: false });
+  }
+
+  function handleResumeSession(ws: ServerSocket, data: ResumeSessionMessage): void {
+    const { sessionId } = data;
+
+    // Finished sessions that have not been cleaned up yet resume read only: every change is a
+    // state transition, and none leads out of a terminal state
+    const session = sessions.get(sessionId);
+    if (!session || !verifyResumeSecret(data.resumeSecret, session.resumeSecretHash)) {
+      connectionLog(ws).warn('Invalid resume attempt', { sessionId });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid or expired session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    // The old socket may still look open if the drop has not been noticed yet, here or on
+    // another instance
+    if (connections.get(sessionId) !== ws) detachFrontend(sessionId);
+
+    connections.set(sessionId, ws);
+    ws.sessionId = sessionId;
+    ws.log = connectionLog(ws).child({ sessionId });
+    cluster?.publish({ type: 'frontend_attached', sessionId });
+
+    // Each secret resumes once, so a leaked one is useless after the next reconnect
+    const resume = issueResumeSecret();
+    session.resumeSecretHash = resume.hash;
+    // Sessions restored from before wallet proofs existed have no challenge yet
+    if (session.status === 'connected' && !session.walletNonce) session.walletNonce = newWalletNonce();
+    sessions.set(sessionId, session);
+
+    connectionLog(ws).info('Session resumed', { state: session.status });
+
+    sendMessage(ws, {
+      type: 'session_resumed',
+      userId: session.userId,
+      username: session.username,
+      sessionId,
+      status: session.status,
+      walletId: session.walletId,
+      transactionData: session.transactionData || null,
+      disconnectPurpose: session.disconnectPurpose || null,
+      pendingTransaction: session.status === 'tx_pending' ? session.transactionData || null : null,
+      pendingRequestId: pendingRequest(session)?.requestId || null,
+      stateExpiresAt: session.stateExpiresAt ? session.stateExpiresAt.toISOString() : null,
+      walletChallenge: session.walletNonce ? walletChallenge(config.walletProof, session.walletNonce) : null,
+      resumeSecret: resume.secret,
+      timestamp: new Date().toISOString()
+    });
+
+    emit('frontend_attached', { ...sessionEventBase(session), resumed: true });
+  }
+
+  async function handleWalletConnected(ws: ServerSocket, data: WalletConnectedMessage): Promise<void> {
+    const { sessionId, walletId, txnLink, signedMessage } = data;
+
+    const found = getOwnedSession(ws, sessionId);
+    if (!found) {
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (!canTransition(found.status, 'wallet_connected')) {
+      rejectTransition(ws, found.status, 'wallet_connected');
+      return;
+    }
+
+    const nonce = found.walletNonce;
+    let verified = false;
+    if (signedMessage || config.walletProof.required) {
+      const proof = !signedMessage
+        ? { verified: false, reason: 'Missing signedMessage for the wallet challenge' }
+        : !nonce
+          ? { verified: false, reason: 'No wallet challenge issued for this session' }
+          : await verifyWalletProof(config.walletProof, walletChallenge(config.walletProof, nonce), walletId, signedMessage, connectionLog(ws));
+      if (!proof.verified) {
+        connectionLog(ws).warn('Wallet proof rejected', { walletId, reason: proof.reason });
+        sendMessage(ws, {
+          type: 'error',
+          message: `Wallet proof failed: ${proof.reason}`,
+          code: 'wallet_proof_failed',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      verified = true;
+    }
+
+    // The session may have moved on, or the challenge been used, while the proof was checked
+    const session = getOwnedSession(ws, sessionId);
+    if (!session || !canTransition(session.status, 'wallet_connected') || session.walletNonce !== nonce) {
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid or expired session',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    session.walletId = walletId;
+    session.txnLink = txnLink || '';
+    session.walletConnectedAt = new Date();
+    session.walletNonce = null;
+    transition(config, session, 'wallet_connected');
+    sessions.set(sessionId, session);
+
+    connectionLog(ws).info('Wallet connected', { walletId, verified });
+    metrics.walletsConnected.inc();
+    metrics.walletConnectSeconds.observe((session.walletConnectedAt.getTime() - session.createdAt.getTime()) / 1000);
+
+    // Send to bot via WebSocket
+    const walletData: BotNotification = {
+      type: 'wallet_connected',
+      userId: session.userId,
+      chatId: session.chatId,
+      username: session.username,
+      walletId,
+      txnLink: txnLink || '',
+      verified,
+      sessionId,
+      timestamp: new Date().toISOString()
+    };
+
+    sendToBot(session.botId, walletData);
+
+    emit('wallet_connected', { ...sessionEventBase(session), walletId, verified });
+
+    // Send confirmation to frontend
+    sendMessage(ws, {
+      type: 'wallet_connection_received',
+      message: 'Wallet connected successfully!',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle transaction processing request from bot
+  function handleProcessTransaction(ws: ServerSocket, data: ProcessTransactionMessage): void {
+    const result = requestTransaction(ws.botId, data.sessionId, data.transactionData, data.requestId, data.idempotencyKey);
+    if (!result.ok) {
+      sendOperationError(ws, result);
+      return;
+    }
+
+    // Confirm to bot that transaction was sent to frontend
+    sendMessage(ws, {
+      type: 'transaction_sent',
+      sessionId: data.sessionId,
+      requestId: result.request.requestId,
+      message: 'Transaction sent to frontend for processing',
+      ...(result.replayed && { replayed: true }),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle explicit session close from bot
+  function handleCloseSession(ws: ServerSocket, data: CloseSessionMessage): void {
+    const result = cancelSession(ws.botId, data.sessionId, data.reason || 'Closed by bot');
+    if (!result.ok) {
+      sendOperationError(ws, result);
+      return;
+    }
+
+    sendMessage(ws, {
+      type: 'session_closed',
+      sessionId: data.sessionId,
+      message: 'Session closed',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Handle transaction result from frontend. Retries carrying the same idempotency key get the
+  // confirmation the first one got. A session the result closed is kept for as long as that
+  // confirmation is, so a frontend that lost its socket can resume it and retry.
+  async function handleTransactionResult(ws: ServerSocket, data: TransactionResultMessage): Promise<void> {
+    const { idempotencyKey, ...payload } = data;
+    if (!idempotencyKey || ws.sessionId !== data.sessionId) {
+      await resolveTransactionResult(ws, data);
+      return;
+    }
+
+    const key = `${data.sessionId}\n${idempotencyKey}`;
+    const lookup = transactionResults.begin(key, fingerprint(payload));
+    if (lookup.status === 'replay') {
+      connectionLog(ws).info('Replayed transaction result', { requestId: lookup.response.requestId });
+      sendMessage(ws, { ...lookup.response, replayed: true });
+      return;
+    }
+    const failure = lookupFailure(lookup);
+    if (failure) {
+      sendOperationError(ws, failure);
+      return;
+    }
+
+    let received: TransactionResultReceivedMessage | null = null;
+    try {
+      received = await resolveTransactionResult(ws, data);
+    } finally {
+      if (received) {
+        transactionResults.complete(key, received);
+        if (received.sessionClosed) retainForReplay(data.sessionId);
+      } else {
+        transactionResults.release(key);
+      }
+    }
+  }
+
+  // Returns the confirmation sent to the frontend, or null if the result was rejected
+  async function resolveTransactionResult(ws: ServerSocket, data: TransactionResultMessage): Promise<TransactionResultReceivedMessage | null> {
+    const { success, signature, txHash, error, sessionId, walletId } = data;
+    const log = connectionLog(ws).child({ sessionId });
+
+    let session = getOwnedSession(ws, sessionId);
+    if (!session || !canTransition(session.status, 'completed')) {
+      log.warn('Transaction result for an invalid session', { exists: !!session, state: session?.status });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Invalid or expired session',
+        timestamp: new Date().toISOString()
+      });
+      return null;
+    }
+
+    // Results belong to the request the frontend names, or the pending one when it names none.
+    // Multi-transaction sessions only accept results for a request; one-shot sessions still
+    // accept a bare result as before.
+    let request = data.requestId
+      ? session.transactionRequests.find(r => r.requestId === data.requestId && r.status === 'pending')
+      : pendingRequest(session);
+    if ((data.requestId && !request) || (session.multiTransaction && !request)) {
+      log.warn('Transaction result for no pending request', { requestId: data.requestId });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Unknown or already resolved transaction request',
+        timestamp: new Date().toISOString()
+      });
+      return null;
+    }
+    const requestId = request?.requestId;
+
+    log.info(success ? 'Transaction reported completed' : 'Transaction reported failed', { requestId, txHash, walletId, error });
+
+    // Reported successes only reach the bot once the transaction is confirmed on chain, checked
+    // against what this request asked for
+    let verification = success
+      ? await verifyTransaction(config.near, session, request?.transactionData, txHash, isTxHashCredited, log)
+      : null;
+    // Another result may have been credited with the same hash while this one was looked up
+    if (verification?.verified && isTxHashCredited(txHash as string)) {
+      verification = { verified: false, reason: 'Transaction was already credited' };
+    }
+    const succeeded = !!verification?.verified;
+
+    // Work on the current copy: while the transaction was verified the session may have been
+    // changed here or replaced by a newer copy from another instance. The request must still be
+    // pending there, otherwise another result for it arrived in the meantime.
+    const verifiedRequestId = request?.requestId;
+    session = getOwnedSession(ws, sessionId);
+    request = verifiedRequestId ? session?.transactionRequests.find(r => r.requestId === verifiedRequestId) : undefined;
+    if (!session || (verifiedRequestId && request?.status !== 'pending')) {
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Unknown or already resolved transaction request',
+        timestamp: new Date().toISOString()
+      });
+      return null;
+    }
+
+    // One-shot sessions close with the result; multi-transaction sessions wait for the next
+    // request unless this was the last one allowed
+    const resolvedCount = session.transactionRequests.filter(r => r.status !== 'pending').length + 1;
+    const keepOpen = acceptsMoreRequests(session, resolvedCount);
+    const nextStatus: SessionStatus = keepOpen ? 'wallet_connected' : succeeded ? 'completed' : 'failed';
+
+    // This fails if the session timed out while the transaction was being verified
+    if (!canTransition(session.status, nextStatus)) {
+      rejectTransition(ws, session.status, nextStatus);
+      return null;
+    }
+    if (request) {
+      request.status = succeeded ? 'completed' : 'failed';
+      request.resolvedAt = new Date();
+      request.txHash = typeof txHash === 'string' ? txHash : null;
+    }
+    if (!applyTransition(ws, session, nextStatus, verification && !verification.verified ? verification.reason : error)) return null;
+
+    ledger.record({
+      outcome: 'transaction_completed',
+      ...ledgerSessionFields(session),
+      walletId: session.walletId || walletId || null,
+      requestId: requestId || null,
+      transactionData: request?.transactionData || session.transactionData || null,
+      success: succeeded,
+      txHash: typeof txHash === 'string' ? txHash : null,
+      error: verification && !verification.verified
+        ? verification.reason || 'Verification failed'
+        : typeof error === 'string' ? error : error ? JSON.stringify(error) : null,
+      requestedAt: request?.requestedAt || null
+    });
+    if (succeeded) creditedTxHashes.add(txHash as string);
+
+    metrics.transactions.inc({ result: succeeded ? 'succeeded' : 'failed' });
+    if (request) {
+      metrics.transactionSeconds.observe((request.resolvedAt!.getTime() - request.requestedAt.getTime()) / 1000);
+    }
+
+    if (verification && !verification.verified) {
+      log.warn('Transaction verification failed', { requestId, txHash, reason: verification.reason });
+      sendToBot(session.botId, {
+        type: 'verification_failed',
+        userId: session.userId,
+        chatId: session.chatId,
+        username: session.username,
+        sessionId,
+        disconnectPurpose: session.disconnectPurpose,
+        reason: verification.reason,
+        timestamp: new Date().toISOString(),
+        ...(requestId && { requestId }),
+        ...(walletId && { walletId }),
+        ...(txHash && { txHash })
+      });
+    } else {
+      // Send result to bot
+      const resultData: BotNotification = {
+        type: 'transaction_completed',
+        success,
+        verified: !!verification,
+        userId: session.userId,
+        chatId: session.chatId,
+        username: session.username,
+        sessionId,
+        disconnectPurpose: session.disconnectPurpose,
+        timestamp: new Date().toISOString(),
+        ...(requestId && { requestId }),
+        ...(success && signature && { signature }),
+        ...(walletId && { walletId }),
+        ...(success && txHash && { txHash }),
+        ...(error && { error })
+      };
+
+      sendToBot(session.botId, resultData);
+    }
+
+    emit('transaction_completed', {
+      ...sessionEventBase(session),
+      success: succeeded,
+      verified: succeeded,
+      walletId: session.walletId,
+      ...(requestId && { requestId }),
+      ...(txHash && { txHash }),
+      ...(error && { error }),
+      ...(verification && !verification.verified && { verificationError: verification.reason })
+    });
+
+    // Confirm to frontend
+    const received: TransactionResultReceivedMessage = {
+      type: 'transaction_result_received',
+      ...(requestId && { requestId }),
+      sessionClosed: !keepOpen,
+      message: keepOpen
+        ? 'Transaction result sent to bot. Waiting for the next transaction.'
+        : 'Transaction result sent to bot. Session is now closed.',
+      timestamp: new Date().toISOString()
+    };
+    sendMessage(ws, received);
+
+    if (keepOpen) return received;
+
+    // Clean up the session after a short delay
+    scheduleSessionCleanup(sessionId, config.sessions.resultCleanupDelayMs, () =>
+      log.info('Cleaned up finished session', { purpose: sessions.get(sessionId)?.disconnectPurpose })
+    );
+
+    return received;
+  }
+
+  // Session operations shared by the WebSocket and REST bot APIs
+
+  // Refuse a new session when the user, the bot or the server already has too many open ones
+  function checkSessionLimits(botId: string | undefined, userId: string): OperationFailure | null {
+    let total = 0;
+    let forUser = 0;
+    let forBot = 0;
+    sessions.values().forEach(session => {
+      if (isTerminal(session.status)) return;
+      total++;
+      if (session.userId === userId) forUser++;
+      if (botId && session.botId === botId) forBot++;
+    });
+
+    let failure: OperationFailure | null = null;
+    if (exceeds(total, limits.maxSessions)) {
+      failure = { ok: false, code: 'session_limit', message: 'Server is at its session limit' };
+    } else if (botId && exceeds(forBot, limits.maxSessionsPerBot)) {
+      failure = { ok: false, code: 'bot_session_limit', message: `Bot ${botId} has too many open sessions` };
+    } else if (exceeds(forUser, limits.maxSessionsPerUser)) {
+      failure = { ok: false, code: 'user_session_limit', message: `User ${userId} has too many open sessions` };
+    }
+
+    if (failure) {
+      rejections.increment(failure.code as LimitErrorCode);
+      logger.warn('Session limit reached', { botId, code: failure.code });
+    }
+    return failure;
+  }
+
+  // Retries carrying the same idempotency key, or else naming the same session ID, get the
+  // session the first request created
+  function createBotSession(botId: string | undefined, params: CreateSessionParams): CreateSessionResult {
+    const retryKey = params.idempotencyKey ? `key:${params.idempotencyKey}` : params.sessionId ? `session:${params.sessionId}` : null;
+    if (!retryKey) return openSession(botId, params);
+
+    const key = `${botId || ''}\n${retryKey}`;
+    const lookup = createdSessions.begin(key, fingerprint(createSessionPayload(params)));
+    if (lookup.status === 'replay') {
+      logger.info('Replayed session creation', { sessionId: lookup.response.sessionId, botId });
+      return { ok: true, created: lookup.response, replayed: true };
+    }
+    if (lookup.status === 'conflict' && !params.idempotencyKey) {
+      return { ok: false, code: 'session_exists', message: `Session ${params.sessionId} already exists` };
+    }
+    const failure = lookupFailure(lookup);
+    if (failure) return failure;
+
+    const result = openSession(botId, params);
+    if (result.ok) {
+      createdSessions.complete(key, result.created);
+    } else {
+      createdSessions.release(key);
+    }
+    return result;
+  }
+
+  function openSession(botId: string | undefined, params: CreateSessionParams): CreateSessionResult {
+    const { username, disconnectPurpose } = params;
+    const userId = String(params.userId);
+    const chatId = String(params.chatId);
+
+    if (shuttingDown) {
+      return { ok: false, code: 'shutting_down', message: 'Server is shutting down, retry shortly' };
+    }
+
+    // Never replace a live session, which could already have a wallet attached
+    if (params.sessionId && sessions.get(params.sessionId)) {
+      logger.warn('Rejected session ID collision', { sessionId: params.sessionId, botId });
+      return { ok: false, code: 'session_exists', message: `Session ${params.sessionId} already exists` };
+    }
+
+    const limitFailure = checkSessionLimits(botId, userId);
+    if (limitFailure) return limitFailure;
+
+    const transactionData = params.transactionData ? normalizeTransaction(params.transactionData) : undefined;
+
+    const sessionId = params.sessionId || uuidv4();
+    const { token, tokenId, expiresAt } = tokens.issue(sessionId);
+    const now = new Date();
+
+    const session: Session = {
+      sessionId,
+      userId,
+      chatId,
+      username,
+      botId,
+      status: 'created',
+      statusChangedAt: now,
+      history: [{ status: 'created', at: now }],
+      stateExpiresAt: null,
+      createdAt: now,
+      connectedAt: null,
+      walletConnectedAt: null,
+      walletId: null,
+      txnLink: null,
+      tokenId,
+      tokenExpiresAt: expiresAt,
+      resumeSecretHash: null,
+      walletNonce: null,
+      disconnectPurpose: disconnectPurpose || undefined,
+      transactionData,
+      transactionRequests: transactionData ? [newTransactionRequest(transactionData)] : [],
+      multiTransaction: params.multiTransaction
+        ? {
+            maxTransactions: params.multiTransaction.maxTransactions || null,
+            expiresAt: lifetimeDeadline(config, params.multiTransaction.lifetimeMs, now)
+          }
+        : undefined
+    };
+    session.stateExpiresAt = sessionDeadline(config, session, 'created', now);
+    sessions.set(sessionId, session);
+    metrics.sessionsCreated.inc({ purpose: purposeLabel(disconnectPurpose) });
+
+    logger.info('Session created', {
+      sessionId,
+      botId,
+      userId,
+      purpose: disconnectPurpose,
+      ...(transactionData && { transaction: describeTransaction(transactionData) }),
+      ...(session.multiTransaction && {
+        maxTransactions: session.multiTransaction.maxTransactions ?? 'unlimited',
+        expiresAt: session.multiTransaction.expiresAt
+      })
+    });
+
+    emit('session_created', {
+      ...sessionEventBase(session),
+      disconnectPurpose: disconnectPurpose || null,
+      hasTransactionData: !!transactionData
+    });
+
+    return { ok: true, created: { sessionId, token, tokenExpiresAt: expiresAt } };
+  }
+
+  // Sessions are replicated across the cluster, so this also sees hashes credited on other
+  // instances while their sessions are kept
+  function isTxHashCredited(txHash: string): boolean {
+    return creditedTxHashes.has(txHash) || sessions.values().some(session =>
+      session.transactionRequests.some(request => request.status === 'completed' && request.txHash === txHash)
+    );
+  }
+
+  // Sessions created by a bot are only visible to that bot; unowned sessions to every bot
+  function findBotSession(botId: string | undefined, sessionId: string): Session | undefined {
+    const session = sessions.get(sessionId);
+    if (!session || (session.botId && session.botId !== botId)) return undefined;
+    return session;
+  }
+
+  // Forward a transaction to the session's frontend for signing. Retries carrying the same
+  // idempotency key get the request the first one created.
+  function requestTransaction(
+    botId: string | undefined,
+    sessionId: string,
+    data: TransactionData,
+    requestId?: string,
+    idempotencyKey?: string
+  ): TransactionRequestResult {
+    if (!idempotencyKey) return sendTransactionRequest(botId, sessionId, data, requestId);
+
+    const key = `${botId || ''}\n${sessionId}\n${idempotencyKey}`;
+    const lookup = requestedTransactions.begin(key, fingerprint({ transactionData: data, requestId }));
+    if (lookup.status === 'replay') {
+      logger.info('Replayed transaction request', { sessionId, requestId: lookup.response.request.requestId });
+      return { ok: true, ...lookup.response, replayed: true };
+    }
+    const failure = lookupFailure(lookup);
+    if (failure) return failure;
+
+    const result = sendTransactionRequest(botId, sessionId, data, requestId);
+    if (result.ok) {
+      requestedTransactions.complete(key, { session: result.session, request: result.request });
+    } else {
+      requestedTransactions.release(key);
+    }
+    return result;
+  }
+
+  function sendTransactionRequest(botId: string | undefined, sessionId: string, data: TransactionData, requestId?: string): TransactionRequestResult {
+    const session = findBotSession(botId, sessionId);
+    if (!session) {
+      return { ok: false, code: 'not_found', message: 'Invalid session' };
+    }
+
+    if (!canTransition(session.status, 'tx_pending')) {
+      return { ok: false, code: 'invalid_state', message: new SessionTransitionError(session.status, 'tx_pending').message };
+    }
+
+    // Transactions already with a wallet get the grace period; new ones would only be cut off
+    if (shuttingDown) {
+      return { ok: false, code: 'shutting_down', message: 'Server is shutting down, retry shortly' };
+    }
+
+    if (requestId && session.transactionRequests.some(request => request.requestId === requestId)) {
+      return { ok: false, code: 'invalid_state', message: `Transaction request ${requestId} already exists` };
+    }
+
+    // A session created with transaction data already has a request the wallet may be signing;
+    // a second one would leave the wallet's result without a request to check it against
+    const pending = pendingRequest(session);
+    if (pending) {
+      return { ok: false, code: 'invalid_state', message: `Transaction request ${pending.requestId} is still pending` };
+    }
+
+    // The signed transaction is verified against what the bot asked for
+    const transactionData = normalizeTransaction(data);
+    const request = newTransactionRequest(transactionData, requestId);
+    session.transactionData = transactionData;
+    session.transactionRequests.push(request);
+    transition(config, session, 'tx_pending');
+    sessions.set(sessionId, session);
+
+    // Send transaction to frontend for processing. A frontend that is away gets it in its
+    // session_resumed snapshot.
+    const sent = sendToFrontend(sessionId, {
+      type: 'process_transaction',
+      requestId: request.requestId,
+      transactionData,
+      timestamp: new Date().toISOString()
+    });
+    logger.info(sent ? 'Sent transaction to frontend' : cluster ? 'Frontend not on this instance, transaction forwarded to the cluster' : 'Frontend away, transaction held until it resumes', {
+      sessionId,
+      requestId: request.requestId,
+      transaction: describeTransaction(transactionData)
+    });
+
+    return { ok: true, session, request };
+  }
+
+  // Cancel a session on behalf of its bot; bot and frontend get session_expired
+  function cancelSession(botId: string | undefined, sessionId: string, reason: string): OperationResult {
+    if (!findBotSession(botId, sessionId)) {
+      return { ok: false, code: 'not_found', message: 'Invalid session' };
+    }
+    return forceExpireSession(sessionId, reason);
+  }
+
+  // Expire any session regardless of which bot owns it (admin API)
+  function forceExpireSession(sessionId: string, reason: string): OperationResult {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return { ok: false, code: 'not_found', message: 'Invalid session' };
+    }
+
+    if (!canTransition(session.status, 'expired')) {
+      return { ok: false, code: 'invalid_state', message: new SessionTransitionError(session.status, 'expired').message };
+    }
+
+    expireSession(session, reason);
+    return { ok: true, session };
+  }
+
+  // Cleanup functions
+  function cleanupConnection(ws: ServerSocket): void {
+    // Reaped sockets come through here from the heartbeat and again from their close event
+    if (ws.cleanedUp) return;
+    ws.cleanedUp = true;
+    heartbeat.untrack(ws);
+    if (ws.clientAddress) connectionsPerIp.release(ws.clientAddress);
+
+    const sessionId = ws.sessionId;
+    const isBot = !!ws.botId;
+
+    // The session stays open so the frontend can resume it
+    if (sessionId && connections.get(sessionId) === ws) {
+      connections.delete(sessionId);
+      connectionLog(ws).info('Frontend connection closed');
+    }
+
+    if (isBot) {
+      removeBotConnection(ws);
+      connectionLog(ws).info('Bot disconnected', { botConnections: countBotConnections() });
+    }
+  }
+
+  function cleanupExpiredSessions(): void {
+    createdSessions.prune();
+    requestedTransactions.prune();
+    transactionResults.prune();
+    if (sweeper && !sweeper.isSweeper()) return;
+
+    const now = new Date();
+    const expiredSessions: string[] = [];
+
+    // Clean up expired sessions
+    sessions.values().forEach(session => {
+      const { sessionId } = session;
+      const sessionAge = now.getTime() - session.createdAt.getTime();
+
+      // Clean up old sessions or already expired sessions; multi-transaction sessions live until
+      // their own lifetime ends and finished sessions as long as they are retained for replays
+      if (isTerminal(session.status) ? !isRetained(session, now) : sessionAge > config.sessions.maxAgeMs && !session.multiTransaction) {
+        expiredSessions.push(sessionId);
+      }
+    });
+
+    // Remove expired sessions
+    expiredSessions.forEach(sessionId => {
+      const session = sessions.get(sessionId);
+      logger.debug(session && isTerminal(session.status) ? 'Cleaning up used session' : 'Cleaning up expired session', {
+        sessionId,
+        purpose: session?.disconnectPurpose
+      });
+      sessions.delete(sessionId);
+      connections.delete(sessionId);
+    });
+
+    if (expiredSessions.length > 0) {
+      logger.info('Cleaned up sessions', { count: expiredSessions.length });
+    }
+  }
+
+  function expireTimedOutSessions(): void {
+    if (sweeper && !sweeper.isSweeper()) return;
+
+    const now = new Date();
+    sessions.values().forEach(session => {
+      if (isTerminal(session.status) || !isTimedOut(session, now)) return;
+
+      if (isRequestTimeout(session, now)) {
+        expireRequest(session, timeoutReason(session, now));
+      } else {
+        expireSession(session, timeoutReason(session, now));
+      }
+    });
+  }
+
+  // Utility functions
+  function summarizeLiveness(sockets: ServerSocket[]): LivenessSummary {
+    const tracked = sockets.map(ws => heartbeat.get(ws)).filter((liveness): liveness is Liveness => !!liveness);
+    const oldest = tracked.reduce<Date | null>((min, liveness) => !min || liveness.lastSeenAt < min ? liveness.lastSeenAt : min, null);
+    return {
+      connections: sockets.length,
+      unresponsive: tracked.filter(liveness => liveness.missedPings > 0).length,
+      oldestLastSeenAt: oldest ? oldest.toISOString() : null
+    };
+  }
+
+  function summarizeBotQueues(queues: Record<string, BotQueueStats>): ServerStats['botQueues'] {
+    const summary: ServerStats['botQueues'] = { queues: 0, depth: 0, dropped: 0, oldestAgeMs: null };
+    Object.values(queues).forEach(queue => {
+      summary.queues++;
+      summary.depth += queue.depth;
+      summary.dropped += queue.dropped;
+      if (queue.oldestAgeMs !== null && (summary.oldestAgeMs === null || queue.oldestAgeMs > summary.oldestAgeMs)) {
+        summary.oldestAgeMs = queue.oldestAgeMs;
+      }
+    });
+    return summary;
+  }
+
+  function countSessionsByStatus(): Record<SessionStatus, number> {
+    const counts: Record<SessionStatus, number> = {
+      created: 0,
+      connected: 0,
+      wallet_connected: 0,
+      tx_pending: 0,
+      completed: 0,
+      failed: 0,
+      expired: 0
+    };
+    sessions.values().forEach(session => counts[session.status]++);
+    return counts;
+  }
+
+  function getStats(): ServerStats {
+    const memUsage = process.memoryUsage();
+
+    const bots: ServerSocket[] = [];
+    botConnections.forEach(sockets => sockets.forEach(ws => bots.push(ws)));
+
+    return {
+      activeSessions: sessions.size,
+      activeConnections: connections.size,
+      uptime: process.uptime(),
+      rejections: rejections.snapshot(),
+      liveness: {
+        frontends: summarizeLiveness(Array.from(connections.values())),
+        bots: summarizeLiveness(bots)
+      },
+      botQueues: summarizeBotQueues(botOutbox.getStats()),
+      cluster: cluster ? { instanceId: cluster.instanceId, remoteBots: remoteBots.size } : null,
+      memory: {
+        used: memUsage.heapUsed,
+        total: memUsage.heapTotal,
+        external: memUsage.external
+      },
+      timestamp: new Date().toISOString(),
+      nodeVersion: process.version,
+      platform: process.platform
+    };
+  }
+
+  function logStats(): void {
+    const stats = getStats();
+    logger.info('Server stats', {
+      sessions: stats.activeSessions,
+      connections: stats.activeConnections,
+      botConnections: countBotConnections(),
+      uptime: `${Math.floor(stats.uptime / 3600)}h ${Math.floor((stats.uptime % 3600) / 60)}m`,
+      memory: `${Math.round(stats.memory.used / 1024 / 1024)}MB`
+    });
+  }
+
+  // Public API
+  function createSessionAPI(userId: string, chatId: string, username: string, disconnectPurpose?: string, botId?: string): { sessionId: string; token: string } {
+    const result = createBotSession(botId, { userId, chatId, username, disconnectPurpose });
+    if (!result.ok) {
+      throw new Error(result.message);
+    }
+    return { sessionId: result.created.sessionId, token: result.created.token };
+  }
+
+  function getSession(sessionId: string): Session | undefined {
+    return sessions.get(sessionId);
+  }
+
+  function getAllSessions(): Session[] {
+    return sessions.values();
+  }
+
+  // Browsers always send an Origin header; connections without one (bots, servers) are let through
+  function isAllowedOrigin(origin: string | undefined): boolean {
+    const allowed = config.allowedOrigins;
+    return !origin || allowed.length === 0 || allowed.includes('*') || allowed.includes(origin);
+  }
+
+  // Value for Access-Control-Allow-Origin, or null when the origin may not call the HTTP routes
+  function corsOrigin(origin: string | undefined): string | null {
+    if (config.corsOrigins.includes('*')) return '*';
+    return origin && config.corsOrigins.includes(origin) ? origin : null;
+  }
+
+  // Cluster messages from other instances
+  function handleClusterMessage(message: ClusterMessage, from: string): void {
+    sweeper?.seen(from);
+    switch (message.type) {
+      case 'session_updated':
+        if (sessions instanceof ReplicatedSessionStore && !sessions.applyRemote(message, from)) {
+          logger.debug('Ignored stale session update', { sessionId: message.session.sessionId, from });
+        }
+        break;
+      case 'session_deleted':
+        if (sessions instanceof ReplicatedSessionStore) sessions.applyRemote(message, from);
+        connections.delete(message.sessionId);
+        break;
+      case 'frontend_message': {
+        const ws = connections.get(message.sessionId);
+        if (ws) sendMessage(ws, message.message);
+        break;
+      }
+      case 'frontend_attached':
+        detachFrontend(message.sessionId);
+        break;
+      case 'bot_presence':
+        if (message.connected) {
+          remoteBots.set(message.botId, from);
+          forwardBotQueue(message.botId, from);
+        } else if (remoteBots.get(message.botId) === from) {
+          remoteBots.delete(message.botId);
+        }
+        break;
+      case 'bot_notification':
+        if (message.to === cluster?.instanceId || (message.to === null && botConnections.size > 0)) {
+          deliverToBot(message.botId, message.message);
+        }
+        break;
+      case 'bot_disconnect':
+        closeBotConnections(message.botId);
+        break;
+      case 'instance_started':
+        botConnections.forEach((_, botId) => cluster?.publish({ type: 'bot_presence', botId, connected: true }));
+        if (sessions instanceof ReplicatedSessionStore) sessions.publishSnapshot();
+        sweeper?.announce();
+        break;
+      case 'instance_alive':
+        break;
+      case 'instance_stopped':
+        sweeper?.left(from);
+        break;
+    }
+  }
+
+  // Bots connected here and, in a cluster, the bots other instances announced
+  function listBots(): AdminBotInfo[] {
+    const queues = botOutbox.getStats();
+    const bots: AdminBotInfo[] = [];
+
+    botConnections.forEach((sockets, botId) => bots.push({
+      botId,
+      instanceId: null,
+      queueDepth: queues[botId]?.depth || 0,
+      connections: Array.from(sockets).map(ws => ({
+        connectionId: ws.connectionId,
+        keyId: ws.botKeyId || '',
+        clientAddress: ws.clientAddress,
+        connectedAt: ws.connectedAt,
+        lastSeenAt: heartbeat.get(ws)?.lastSeenAt || null
+      }))
+    }));
+    remoteBots.forEach((instanceId, botId) => {
+      if (!botConnections.has(botId)) {
+        bots.push({ botId, instanceId, queueDepth: queues[botId]?.depth || 0, connections: [] });
+      }
+    });
+    return bots;
+  }
+
+  function closeBotConnections(botId: string): number {
+    const sockets = Array.from(botConnections.get(botId) || []);
+    sockets.forEach(ws => ws.close(4000, 'Disconnected by admin'));
+    return sockets.length;
+  }
+
+  // Disconnect a bot here and on every other instance
+  function disconnectBot(botId: string): number {
+    cluster?.publish({ type: 'bot_disconnect', botId });
+    return closeBotConnections(botId);
+  }
+
+  // Hand notifications queued here to the instance a bot is now connected to
+  function forwardBotQueue(botId: string, instanceId: string): void {
+    if (!cluster || botConnections.has(botId)) return;
+
+    const pending = botOutbox.pending(botId);
+    if (pending.length === 0) return;
+
+    logger.info('Forwarding queued bot notifications', { botId, instanceId, count: pending.length });
+    pending.forEach(entry => cluster!.publish({ type: 'bot_notification', to: instanceId, botId, message: entry.message }));
+    botOutbox.ack(botId, pending[pending.length - 1].seq);
+  }
+
+  // Load bot keys, keeping the previous set if the new configuration is invalid
+  function reloadBotKeys(): void {
+    try {
+      const keyCount = keyring.load();
+      if (keyCount === 0) {
+        logger.warn('No bot keys configured (BOT_AUTH_KEYS / BOT_AUTH_KEYS_FILE), bots cannot authenticate');
+      } else {
+        logger.info('Loaded bot keys', { count: keyCount });
+      }
+    } catch (error) {
+      logger.error('Failed to load bot keys', { error });
+    }
+  }
+
+  // Paths handleRequest serves itself; in middleware mode everything else goes to next()
+  function isOwnRoute(req: http.IncomingMessage): boolean {
+    const path = (req.url || '').split('?')[0];
+    return restApi.handles(req)
+      || adminApi.handles(req)
+      || ['/health', '/metrics', '/status'].includes(path)
+      || (path.startsWith('/session/') && path.includes('/transaction'));
+  }
+
+  function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, next?: () => void): void {
+    if (next && !isOwnRoute(req)) {
+      next();
+      return;
+    }
+
+    // Enable CORS for the configured origins
+    const allowOrigin = corsOrigin(req.headers.origin);
+    if (allowOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+    }
+    if (allowOrigin !== '*') {
+      res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Bot-Key-Id, X-Bot-Id, X-Bot-Timestamp, X-Bot-Nonce, X-Bot-Signature');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    if (restApi.handles(req)) {
+      restApi.handle(req, res);
+      return;
+    }
+
+    if (adminApi.handles(req)) {
+      adminApi.handle(req, res);
+      return;
+    }
+
+    if (req.url === '/health') {
+      // Load balancers stop routing here as soon as a shutdown starts
+      res.writeHead(shuttingDown ? 503 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        status: shuttingDown ? 'shutting_down' : 'healthy',
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString(),
+        activeSessions: sessions.size,
+        activeConnections: connections.size,
+        botConnections: countBotConnections()
+      }));
+      return;
+    }
+
+    if (req.url === '/metrics') {
+      res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+      res.end(metrics.registry.render());
+      return;
+    }
+
+    if (req.url === '/status') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(getStats()));
+      return;
+    }
+
+    // Get transaction data for a specific session (requires the session's unused frontend token)
+    if (req.url?.startsWith('/session/') && req.url.includes('/transaction')) {
+      const token = req.url.split('/')[2];
+      if (token) {
+        const session = findSessionByToken(token);
+        if (session && session.transactionData) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            sessionId: session.sessionId,
+            transactionData: session.transactionData,
+            status: session.status,
+            timestamp: new Date().toISOString()
+          }));
+          return;
+        } else {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            error: 'Session not found or no transaction data',
+            timestamp: new Date().toISOString()
+          }));
+          return;
+        }
+      }
+    }
+
+    // Default response
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      service: 'Text Royale WebSocket Server',
+      status: 'running',
+      version: '1.0.0',
+      activeSessions: sessions.size,
+      botConnections: countBotConnections()
+    }));
+  }
+
+  function handleConnection(socket: WSWebSocket, req: http.IncomingMessage): void {
+    const ws = socket as ServerSocket;
+    const clientIp = clientAddress(req, limits.trustProxy, limits.trustProxyHops);
+    ws.connectionId = uuidv4();
+    ws.connectedAt = new Date();
+    ws.log = logger.child({ connectionId: ws.connectionId });
+    connectionLog(ws).info('WebSocket connection opened', { clientAddress: clientIp, origin: req.headers.origin });
+
+    if (!connectionsPerIp.acquire(clientIp)) {
+      rejections.increment('connection_limit');
+      connectionLog(ws).warn('Too many connections from address', { clientAddress: clientIp });
+      sendMessage(ws, {
+        type: 'error',
+        message: 'Too many connections from this address',
+        code: 'connection_limit',
+        timestamp: new Date().toISOString()
+      });
+      ws.close(1008, 'connection_limit');
+      return;
+    }
+    ws.clientAddress = clientIp;
+    ws.messageWindow = { startedAt: Date.now(), count: 0 };
+
+    heartbeat.track(ws);
+
+    ws.on('message', (message) => {
+      handleMessage(ws, message.toString());
+    });
+
+    ws.on('close', (code, reason) => {
+      connectionLog(ws).info('WebSocket connection closed', { code, reason: reason.toString() });
+      cleanupConnection(ws);
+    });
+
+    ws.on('error', (error) => {
+      // ws closes the socket with 1009 when a frame exceeds maxPayload
+      if ((error as any).code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+        rejections.increment('payload_too_large');
+      }
+      connectionLog(ws).error('WebSocket error', { error });
+      cleanupConnection(ws);
+    });
+
+    // Send welcome message
+    sendMessage(ws, {
+      type: 'connected',
+      message: 'WebSocket connection established',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Accept WebSocket connections on `server` and start the background timers
+  function attach(server: http.Server): void {
+    if (wss) throw new Error('Server is already attached');
+    if (shuttingDown) throw new Error('Server is shut down');
+
+    wss = new WebSocketServer({
+      server,
+      ...(limits.maxPayloadBytes > 0 && { maxPayload: limits.maxPayloadBytes }),
+      verifyClient: (info: Parameters<VerifyClientCallbackAsync>[0], callback: Parameters<VerifyClientCallbackAsync>[1]) => {
+        if (shuttingDown) {
+          callback(false, 503, 'Server shutting down');
+          return;
+        }
+        if (!isAllowedOrigin(info.origin)) {
+          logger.warn('Rejected connection from disallowed origin', { origin: info.origin });
+          callback(false, 403, 'Origin not allowed');
+          return;
+        }
+        callback(true);
+      }
+    });
+    wss.on('connection', handleConnection);
+
+    // Ping every socket and reap the ones that stopped answering
+    heartbeat.start();
+
+    timers = [
+      // Check per-state session timeouts
+      setInterval(expireTimedOutSessions, config.intervals.timeoutCheckMs),
+      // Cleanup old and finished sessions
+      setInterval(cleanupExpiredSessions, config.intervals.cleanupMs),
+      // Drop stale queued bot messages
+      setInterval(() => botOutbox.prune(), config.intervals.queuePruneMs),
+      // Log stats
+      setInterval(logStats, config.intervals.statsLogMs),
+      // Let the other instances know this one is alive, for the sweeper election
+      ...(sweeper ? [setInterval(() => sweeper.announce(), config.intervals.timeoutCheckMs)] : [])
+    ];
+  }
+
+  // Serve everything on a new HTTP server
+  function listen(port: number = config.port): Promise<http.Server> {
+    const server = http.createServer((req, res) => handleRequest(req, res));
+    attach(server);
+    ownServer = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => {
+        server.off('error', reject);
+        logger.info('Text Royale WebSocket Server started', {
+          port,
+          health: `http://localhost:${port}/health`,
+          status: `http://localhost:${port}/status`,
+          metrics: `http://localhost:${port}/metrics`,
+          sessionTransaction: `http://localhost:${port}/session/{token}/transaction`,
+          botRestApi: `http://localhost:${port}/sessions`,
+          webSocket: `ws://localhost:${port}`,
+          publicWebSocket: 'wss://ws.textroyale.com/'
+        });
+        resolve(server);
+      });
+    });
+  }
+
+  // Graceful shutdown: refuse new work, tell every client, let transactions that are already
+  // with a wallet finish, then close. Sessions and the ledger are written as they change and
+  // bot queues are flushed on the way out, so a file-backed restart picks up where this
+  // instance stopped. An HTTP server passed to attach() is left running.
+  async function drainAndClose(reason: string): Promise<void> {
+    shuttingDown = true;
+    const { gracePeriodMs, reconnectAfterMs } = config.shutdown;
+    logger.info('Shutting down', { reason, gracePeriodMs, inFlightTransactions: inFlightTransactions() });
+
+    const serverClosed = ownServer
+      ? new Promise<void>(resolve => ownServer!.close(() => resolve()))
+      : Promise.resolve();
+    ownServer?.closeIdleConnections();
+
+    wss?.clients.forEach(ws => sendMessage(ws, {
+      type: 'server_shutting_down',
+      message: 'Server is restarting. Reconnect to continue.',
+      reconnectAfterMs,
+      closesWithinMs: gracePeriodMs,
+      timestamp: new Date().toISOString()
+    }));
+
+    const deadline = Date.now() + gracePeriodMs;
+    while (wss && inFlightTransactions() > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    const unfinished = inFlightTransactions();
+    if (wss && unfinished > 0) {
+      logger.warn('Grace period ended with transactions still in flight', { count: unfinished });
+    }
+
+    timers.forEach(clearInterval);
+    // Finished sessions left behind are removed by the next cleanup sweep after a restart
+    cleanupTimers.forEach(clearTimeout);
+    cleanupTimers.clear();
+    heartbeat.stop();
+    botOutbox.close();
+
+    if (wss) {
+      const server = wss;
+      server.clients.forEach(ws => ws.close(1001, 'Server shutting down'));
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    ownServer?.closeAllConnections();
+    await serverClosed;
+
+    await webhooks?.close();
+    sweeper?.leave();
+    await cluster?.close();
+    logger.info('Shutdown complete');
+  }
+
+  function close(reason: string = 'Shutdown requested'): Promise<void> {
+    if (!closing) closing = drainAndClose(reason);
+    return closing;
+  }
+
+  // Transactions sent to a wallet attached to this instance that have no result yet
+  function inFlightTransactions(): number {
+    return sessions.values().filter(session => session.status === 'tx_pending' && connections.has(session.sessionId)).length;
+  }
+
+  return {
+    config,
+    listen,
+    attach,
+    handleRequest,
+    close,
+    on,
+    emit,
+    createSession: createSessionAPI,
+    getSession,
+    getAllSessions,
+    getStats,
+    reloadBotKeys
+  };
+}
+
+export {
+  ServerStats,
+  TrSocketServerOptions,
+  TrSocketServer,
+  createTrSocketServer
+};
@@ -0,0 +1,80 @@
+import {
+  TransactionAction,
+  TransactionData,
+  NormalizedAction,
+  NormalizedTransaction,
+  DEFAULT_FUNCTION_CALL_GAS,
+  DEFAULT_FT_TRANSFER_CALL_GAS
+} from './protocol';
+import { nearToYocto, addAmounts } from './amounts';
+
+// Transaction normalization
+//
+// Bots describe transactions with the friendly shapes from protocol.ts. Once validated they
+// are turned into the exact actions the wallet will sign, which is also what on-chain
+// verification compares against:
+//   { receiver, amount: "0.5" }      -> Transfer of 0.5 NEAR in yoctoNEAR
+//   FtTransfer without / with msg    -> ft_transfer / ft_transfer_call with a 1 yoctoNEAR deposit
+//   FunctionCall                     -> default args {}, gas and deposit '0' filled in
+
+function normalizeAction(action: TransactionAction): NormalizedAction {
+  switch (action.type) {
+    case 'Transfer':
+      return { type: 'Transfer', params: { deposit: action.deposit } };
+    case 'FunctionCall':
+      return {
+        type: 'FunctionCall',
+        params: {
+          methodName: action.methodName,
+          args: action.args || {},
+          gas: action.gas || String(DEFAULT_FUNCTION_CALL_GAS),
+          deposit: action.deposit || '0'
+        }
+      };
+    case 'FtTransfer': {
+      const isCall = action.msg !== undefined;
+      return {
+        type: 'FunctionCall',
+        params: {
+          methodName: isCall ? 'ft_transfer_call' : 'ft_transfer',
+          args: {
+            receiver_id: action.receiverId,
+            amount: action.amount,
+            ...(action.memo !== undefined && { memo: action.memo }),
+            ...(isCall && { msg: action.msg })
+          },
+          gas: action.gas || String(isCall ? DEFAULT_FT_TRANSFER_CALL_GAS : DEFAULT_FUNCTION_CALL_GAS),
+          deposit: '1' // NEP-141 requires exactly one yoctoNEAR
+        }
+      };
+    }
+  }
+}
+
+// Expects data that passed validateInbound
+function normalizeTransaction(data: TransactionData): NormalizedTransaction {
+  const actions = data.actions
+    ? data.actions.map(normalizeAction)
+    : [{ type: 'Transfer' as const, params: { deposit: nearToYocto(data.amount || '0') } }];
+
+  return {
+    receiverId: data.receiver,
+    actions,
+    totalDeposit: actions.reduce((total, action) => addAmounts(total, action.params.deposit), '0'),
+    ...(data.purpose !== undefined && { purpose: data.purpose }),
+    ...(data.metadata !== undefined && { metadata: data.metadata })
+  };
+}
+
+// Short human-readable summary for logs
+function describeTransaction(transaction: NormalizedTransaction): string {
+  const names = transaction.actions.map(action =>
+    action.type === 'FunctionCall' ? action.params.methodName : 'Transfer'
+  );
+  return `${names.join(', ')} to ${transaction.receiverId} (deposit ${transaction.totalDeposit} yoctoNEAR)`;
+}
+
+export {
+  normalizeTransaction,
+  describeTransaction
+};
@@ -0,0 +1,125 @@
+import { providers } from 'near-api-js';
+import { NormalizedAction, NormalizedTransaction } from './protocol';
+import { Session } from './types';
+import { NearConfig } from './config';
+import { Logger, logger } from './logger';
+
+// On-chain transaction verification
+//
+// The frontend reports a txHash after signing. Before the bot is told about a payment the
+// transaction is fetched over NEAR RPC (NEAR_RPC_URL) and compared with the request it answers:
+// signed by the session's wallet, sent to the requested receiver, carrying exactly
+// the requested actions (same methods, arguments and deposits; gas may differ) and executed
+// successfully. A hash already credited to a request is refused, so one payment cannot be
+// reported for several requests or sessions.
+
+interface VerificationResult {
+  verified: boolean;
+  reason?: string;
+}
+
+// One provider per RPC URL, shared by every server instance using it
+const rpcProviders = new Map<string, providers.JsonRpcProvider>();
+
+function getProvider(rpcUrl: string): providers.JsonRpcProvider {
+  let provider = rpcProviders.get(rpcUrl);
+  if (!provider) {
+    provider = new providers.JsonRpcProvider({ url: rpcUrl });
+    rpcProviders.set(rpcUrl, provider);
+  }
+  return provider;
+}
+
+// JSON with sorted keys, so argument objects compare equal regardless of key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function decodeArgs(args: unknown): unknown {
+  if (typeof args !== 'string') return undefined;
+  try {
+    return JSON.parse(Buffer.from(args, 'base64').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Compare a requested action with an action from the RPC transaction view
+function matchesAction(expected: NormalizedAction, actual: any): boolean {
+  if (expected.type === 'Transfer') {
+    return !!actual?.Transfer && String(actual.Transfer.deposit) === expected.params.deposit;
+  }
+
+  const call = actual?.FunctionCall;
+  return !!call
+    && call.method_name === expected.params.methodName
+    && String(call.deposit) === expected.params.deposit
+    && canonicalJson(decodeArgs(call.args)) === canonicalJson(expected.params.args);
+}
+
+async function verifyTransaction(
+  config: NearConfig,
+  session: Session,
+  transactionData: NormalizedTransaction | undefined,
+  txHash: unknown,
+  isCredited: (txHash: string) => boolean,
+  log: Logger = logger
+): Promise<VerificationResult> {
+  if (typeof txHash !== 'string' || !txHash) {
+    return { verified: false, reason: 'Missing transaction hash' };
+  }
+  if (isCredited(txHash)) {
+    return { verified: false, reason: 'Transaction was already credited' };
+  }
+  if (!session.walletId) {
+    return { verified: false, reason: 'No wallet connected for this session' };
+  }
+  if (!transactionData) {
+    return { verified: false, reason: 'No transaction requested for this session' };
+  }
+
+  let outcome;
+  try {
+    outcome = await getProvider(config.rpcUrl).txStatus(txHash, session.walletId, 'FINAL');
+  } catch (error) {
+    log.warn('Transaction lookup failed', { sessionId: session.sessionId, txHash, error });
+    return { verified: false, reason: 'Transaction not found' };
+  }
+
+  const status: any = outcome.status;
+  if (!status || typeof status !== 'object' || 'Failure' in status) {
+    return { verified: false, reason: 'Transaction did not succeed' };
+  }
+
+  const transaction = outcome.transaction || {};
+  if (transaction.signer_id !== session.walletId) {
+    return { verified: false, reason: 'Signer does not match connected wallet' };
+  }
+  if (transaction.receiver_id !== transactionData.receiverId) {
+    return { verified: false, reason: 'Receiver does not match requested receiver' };
+  }
+
+  const expectedActions = transactionData.actions;
+  const actualActions: any[] = transaction.actions || [];
+  if (actualActions.length !== expectedActions.length) {
+    return { verified: false, reason: 'Actions do not match requested actions' };
+  }
+  const mismatch = expectedActions.findIndex((action, index) => !matchesAction(action, actualActions[index]));
+  if (mismatch >= 0) {
+    return { verified: false, reason: `Action ${mismatch} does not match the requested ${expectedActions[mismatch].type}` };
+  }
+
+  return { verified: true };
+}
+
+export {
+  VerificationResult,
+  getProvider,
+  canonicalJson,
+  verifyTransaction
+};
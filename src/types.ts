@@ -0,0 +1,100 @@
+import { TransactionData, NormalizedTransaction, MultiTransactionOptions, ErrorCode } from './protocol';
+
+// Shared types
+
+// One transaction the bot asked the wallet to sign
+export interface TransactionRequest {
+  requestId: string;
+  status: 'pending' | 'completed' | 'failed';
+  transactionData: NormalizedTransaction;
+  requestedAt: Date;
+  resolvedAt: Date | null;
+  txHash: string | null;
+}
+
+// A state the session entered, kept for support and auditing
+export interface SessionHistoryEntry {
+  status: SessionStatus;
+  at: Date;
+  reason?: string;
+}
+
+// Limits of a session created with multiTransaction
+export interface MultiTransactionLimits {
+  maxTransactions: number | null;
+  // End of the session's lifetime; no state deadline runs past it
+  expiresAt: Date;
+}
+
+export interface Session {
+  sessionId: string;
+  userId: string;
+  chatId: string;
+  username: string;
+  // Identity of the bot that created the session; notifications go only to its connections
+  botId?: string;
+  status: 'created' | 'connected' | 'wallet_connected' | 'tx_pending' | 'completed' | 'failed' | 'expired';
+  statusChangedAt: Date;
+  // Every state the session has been in, oldest first
+  history: SessionHistoryEntry[];
+  // When the current state times out (null for terminal states)
+  stateExpiresAt: Date | null;
+  createdAt: Date;
+  connectedAt: Date | null;
+  walletConnectedAt: Date | null;
+  walletId: string | null;
+  txnLink: string | null;
+  // ID of the outstanding frontend token, cleared once the token is redeemed
+  tokenId: string | null;
+  tokenExpiresAt: Date;
+  // Hash of the secret a dropped frontend presents to take the session back
+  resumeSecretHash: string | null;
+  // Nonce of the challenge the wallet signs to prove walletId, cleared once it is connected
+  walletNonce: string | null;
+  disconnectPurpose?: string;
+  // Transaction prepared by the bot, normalized to the actions the wallet signs
+  transactionData?: NormalizedTransaction;
+  // Every transaction requested in this session, oldest first
+  transactionRequests: TransactionRequest[];
+  // Set when the session accepts more than one transaction
+  multiTransaction?: MultiTransactionLimits;
+  // A finished session is kept until then so its frontend can resume it and have a result sent
+  // with an idempotency key replayed (IDEMPOTENCY_TTL_MS after the result)
+  retainedUntil?: Date;
+}
+
+export type SessionStatus = Session['status'];
+
+// Session operations shared by the WebSocket and REST bot APIs
+
+export interface CreateSessionParams {
+  sessionId?: string;
+  userId: string | number;
+  chatId: string | number;
+  username: string;
+  transactionData?: TransactionData;
+  disconnectPurpose?: string;
+  multiTransaction?: MultiTransactionOptions;
+  idempotencyKey?: string;
+}
+
+export interface CreatedSession {
+  sessionId: string;
+  token: string;
+  tokenExpiresAt: Date;
+}
+
+export interface OperationFailure {
+  ok: false;
+  code: ErrorCode;
+  message: string;
+}
+
+export type OperationResult = { ok: true; session: Session } | OperationFailure;
+
+// replayed: an idempotent retry answered with the original result
+export type CreateSessionResult = { ok: true; created: CreatedSession; replayed?: boolean } | OperationFailure;
+
+export type TransactionRequestResult =
+  | { ok: true; session: Session; request: TransactionRequest; replayed?: boolean }
+  | OperationFailure;
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { utils } from 'near-api-js';
+import { SignedWalletMessage, WalletChallenge } from './protocol';
+import { WalletProofConfig } from './config';
+import { getProvider } from './txVerification';
+import { Logger, logger } from './logger';
+
+// Wallet ownership proof
+//
+// The frontend used to report any walletId it liked. Now every session gets a random 32-byte
+// nonce with session_initialized, the wallet signs it with NEP-413 signMessage and the
+// frontend sends the signed message along with wallet_connected.
+//
+// The signature covers sha256 of the borsh-serialized payload prefixed with the NEP-413 tag:
+// { message: string, nonce: [u8; 32], recipient: string, callbackUrl: Option<string> }.
+// A valid signature only shows the user holds that key, so unless WALLET_PROOF_CHECK_ACCESS_KEY
+// is off the key is also looked up over WALLET_PROOF_RPC_URL and must be a full-access key
+// of the claimed account.
+
+interface WalletProofResult {
+  verified: boolean;
+  reason?: string;
+}
+
+// 2^31 + 413, so a signed message can never be a valid transaction
+const NEP413_TAG = 2147484061;
+
+function newWalletNonce(): string {
+  return crypto.randomBytes(32).toString('base64');
+}
+
+function walletChallenge(config: WalletProofConfig, nonce: string): WalletChallenge {
+  return { message: config.message, recipient: config.recipient, nonce };
+}
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+// The hash the wallet signed
+function payloadHash(challenge: WalletChallenge, callbackUrl?: string): Buffer {
+  const tag = Buffer.alloc(4);
+  tag.writeUInt32LE(NEP413_TAG, 0);
+
+  return crypto.createHash('sha256').update(Buffer.concat([
+    tag,
+    borshString(challenge.message),
+    Buffer.from(challenge.nonce, 'base64'),
+    borshString(challenge.recipient),
+    callbackUrl === undefined ? Buffer.from([0]) : Buffer.concat([Buffer.from([1]), borshString(callbackUrl)])
+  ])).digest();
+}
+
+function parsePublicKey(value: string): utils.PublicKey | null {
+  try {
+    const publicKey = utils.PublicKey.fromString(value);
+    return publicKey.keyType === utils.key_pair.KeyType.ED25519 ? publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+async function isFullAccessKey(config: WalletProofConfig, accountId: string, publicKey: string): Promise<boolean> {
+  const accessKey: any = await getProvider(config.rpcUrl).query({
+    request_type: 'view_access_key',
+    finality: 'final',
+    account_id: accountId,
+    public_key: publicKey
+  });
+  return accessKey?.permission === 'FullAccess';
+}
+
+async function verifyWalletProof(
+  config: WalletProofConfig,
+  challenge: WalletChallenge,
+  walletId: string,
+  signed: SignedWalletMessage,
+  log: Logger = logger
+): Promise<WalletProofResult> {
+  if (signed.accountId !== walletId) {
+    return { verified: false, reason: 'Signed message is for a different account' };
+  }
+
+  const publicKey = parsePublicKey(signed.publicKey);
+  if (!publicKey) {
+    return { verified: false, reason: 'Expected an ed25519 public key' };
+  }
+
+  const signature = Buffer.from(signed.signature, 'base64');
+  if (signature.length !== 64 || !publicKey.verify(payloadHash(challenge, signed.callbackUrl), signature)) {
+    return { verified: false, reason: 'Invalid signature' };
+  }
+
+  if (config.checkAccessKey) {
+    try {
+      if (!await isFullAccessKey(config, walletId, signed.publicKey)) {
+        return { verified: false, reason: 'Key is not a full-access key of the account' };
+      }
+    } catch (error) {
+      // Unknown keys and accounts are RPC errors too, so this fails closed
+      log.warn('Access key lookup failed', { walletId, publicKey: signed.publicKey, error });
+      return { verified: false, reason: 'Key not found on the account' };
+    }
+  }
+
+  return { verified: true };
+}
+
+export {
+  WalletProofResult,
+  newWalletNonce,
+  walletChallenge,
+  verifyWalletProof
+};
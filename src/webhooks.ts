@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { LifecycleEventName } from './events';
+import { Logger, logger } from './logger';
+
+// Webhooks
+//
+// Lifecycle events are POSTed as JSON to every URL in WEBHOOK_URLS. Each request carries
+//   X-TrSocket-Event      event name
+//   X-TrSocket-Delivery   delivery ID (stable across retries)
+//   X-TrSocket-Timestamp  unix seconds
+//   X-TrSocket-Signature  sha256=hex(HMAC-SHA256(WEBHOOK_SECRET, `${timestamp}.${body}`))
+// Failed deliveries are retried with exponential backoff; once WEBHOOK_MAX_ATTEMPTS is reached
+// the delivery is appended to the dead-letter log (WEBHOOK_DEAD_LETTER_PATH). On shutdown,
+// deliveries still waiting for a retry are dead-lettered as well so they can be replayed.
+
+interface WebhookConfig {
+  urls: string[];
+  secret: string;
+  events: LifecycleEventName[];
+  maxAttempts: number;
+  baseDelayMs: number; // doubled per attempt
+  timeoutMs: number;
+  deadLetterPath: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: LifecycleEventName;
+  body: string;
+  attempts: number;
+}
+
+function signWebhook(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+class WebhookDispatcher {
+  private inFlight = 0;
+  private deadLettered = 0;
+  private closing = false;
+  private retries = new Map<WebhookDelivery, NodeJS.Timeout>();
+
+  constructor(private readonly config: WebhookConfig, private readonly log: Logger = logger) {}
+
+  get subscribedEvents(): LifecycleEventName[] {
+    return this.config.events;
+  }
+
+  dispatch(event: LifecycleEventName, data: unknown): void {
+    const id = uuidv4();
+    const body = JSON.stringify({ id, event, timestamp: new Date().toISOString(), data });
+
+    this.config.urls.forEach(url => {
+      this.attempt({ id, url, event, body, attempts: 0 });
+    });
+  }
+
+  getStats(): { inFlight: number; deadLettered: number } {
+    return { inFlight: this.inFlight, deadLettered: this.deadLettered };
+  }
+
+  private attempt(delivery: WebhookDelivery): void {
+    delivery.attempts++;
+    this.inFlight++;
+
+    this.post(delivery)
+      .then(() => {
+        this.inFlight--;
+      })
+      .catch(error => {
+        this.inFlight--;
+        const reason = error instanceof Error ? error.message : String(error);
+
+        if (delivery.attempts >= this.config.maxAttempts || this.closing) {
+          this.deadLetter(delivery, reason);
+          return;
+        }
+
+        const delay = this.config.baseDelayMs * Math.pow(2, delivery.attempts - 1);
+        this.log.warn('Webhook delivery failed, retrying', { event: delivery.event, url: delivery.url, reason, retry: delivery.attempts, maxRetries: this.config.maxAttempts - 1, delayMs: delay });
+        this.retries.set(delivery, setTimeout(() => {
+          this.retries.delete(delivery);
+          this.attempt(delivery);
+        }, delay));
+      });
+  }
+
+  // Wait for deliveries in flight; pending retries go straight to the dead-letter log
+  async close(): Promise<void> {
+    this.closing = true;
+    this.retries.forEach((timer, delivery) => {
+      clearTimeout(timer);
+      this.deadLetter(delivery, 'Server shut down before the next retry');
+    });
+    this.retries.clear();
+
+    // Requests time out after timeoutMs, so this ends
+    while (this.inFlight > 0) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
+  private async post(delivery: WebhookDelivery): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-TrSocket-Event': delivery.event,
+          'X-TrSocket-Delivery': delivery.id,
+          'X-TrSocket-Timestamp': timestamp,
+          'X-TrSocket-Signature': signWebhook(this.config.secret, timestamp, delivery.body)
+        },
+        body: delivery.body,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private deadLetter(delivery: WebhookDelivery, reason: string): void {
+    this.deadLettered++;
+    this.log.error('Webhook delivery dead-lettered', { event: delivery.event, url: delivery.url, attempts: delivery.attempts, reason });
+
+    try {
+      fs.mkdirSync(path.dirname(this.config.deadLetterPath), { recursive: true });
+      fs.appendFileSync(this.config.deadLetterPath, JSON.stringify({
+        id: delivery.id,
+        url: delivery.url,
+        event: delivery.event,
+        attempts: delivery.attempts,
+        error: reason,
+        failedAt: new Date().toISOString(),
+        body: delivery.body
+      }) + '\n');
+    } catch (error) {
+      this.log.error('Could not write webhook dead-letter log', { path: this.config.deadLetterPath, error });
+    }
+  }
+}
+
+// Null when no webhook URLs are configured
+function createWebhookDispatcher(config: WebhookConfig | null, log: Logger = logger): WebhookDispatcher | null {
+  return config ? new WebhookDispatcher(config, log) : null;
+}
+
+export {
+  WebhookConfig,
+  WebhookDispatcher,
+  signWebhook,
+  createWebhookDispatcher
+};
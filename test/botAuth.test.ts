@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotKeyring, createBotChallenge, signBotChallenge, signBotRequest } from '../src/botAuth';
+
+function now(): string {
+  return Math.floor(Date.now() / 1000).toString();
+}
+
+function keyring(keys: string, keyBots: string | null = null): BotKeyring {
+  const ring = new BotKeyring({ keys, keysFile: null, keyBots, challengeTtlMs: 30000, requestMaxSkewMs: 300000 });
+  ring.load();
+  return ring;
+}
+
+test('challenge responses are accepted once signed with the right key', () => {
+  const ring = keyring('k1:s1,k2:s2');
+  const challenge = createBotChallenge();
+
+  assert.equal(ring.verifyResponse(challenge, 'k1', signBotChallenge('s1', challenge.nonce)), true);
+  assert.equal(ring.verifyResponse(challenge, 'k2', signBotChallenge('s1', challenge.nonce)), false);
+  assert.equal(ring.verifyResponse(challenge, 'k3', signBotChallenge('s1', challenge.nonce)), false);
+  assert.equal(ring.verifyResponse(undefined, 'k1', signBotChallenge('s1', challenge.nonce)), false);
+});
+
+test('stale challenges are rejected', () => {
+  const ring = keyring('k1:s1');
+  const challenge = { ...createBotChallenge(), issuedAt: Date.now() - 60000 };
+
+  assert.equal(ring.verifyResponse(challenge, 'k1', signBotChallenge('s1', challenge.nonce)), false);
+});
+
+test('malformed key lists fail to load', () => {
+  assert.throws(() => keyring('k1'));
+});
+
+test('keys only act as their own ID and the bots bound to them', () => {
+  const ring = keyring('k1:s1,k2:s2', 'k1:botA|botB');
+
+  assert.equal(ring.ownsBot('k1', 'k1'), true);
+  assert.equal(ring.ownsBot('k1', 'botA'), true);
+  assert.equal(ring.ownsBot('k1', 'botB'), true);
+  assert.equal(ring.ownsBot('k2', 'botA'), false);
+  assert.equal(ring.ownsBot('k3', 'k3'), false);
+});
+
+test('bots can be bound in the key file', () => {
+  const keysFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-keys-')), 'keys.json');
+  fs.writeFileSync(keysFile, JSON.stringify({ k1: 's1', k2: { secret: 's2', botIds: ['botC'] } }));
+  const ring = new BotKeyring({ keys: null, keysFile, keyBots: null, challengeTtlMs: 30000, requestMaxSkewMs: 300000 });
+
+  assert.equal(ring.load(), 2);
+  assert.equal(ring.ownsBot('k2', 'botC'), true);
+  assert.equal(ring.ownsBot('k1', 'botC'), false);
+});
+
+test('binding bots to an unknown key fails to load', () => {
+  const ring = new BotKeyring({ keys: 'k1:s1', keysFile: null, keyBots: 'k9:botA', challengeTtlMs: 30000, requestMaxSkewMs: 300000 });
+  assert.throws(() => ring.load(), /unknown key k9/);
+});
+
+test('signed requests verify and tampering is detected', () => {
+  const ring = keyring('k1:s1', 'k1:botA');
+  const timestamp = now();
+  const body = JSON.stringify({ userId: 1 });
+  const signature = signBotRequest('s1', timestamp, 'nonce-0001', 'botA', 'POST', '/sessions', body);
+
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-0001', signature, 'botA', 'POST', '/sessions', body), true);
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-0002', signature, 'botA', 'POST', '/sessions', body), false);
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-0003', signature, 'botB', 'POST', '/sessions', body), false);
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-0004', signature, 'botA', 'POST', '/sessions', '{}'), false);
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-0005', signature, 'botA', 'GET', '/sessions', body), false);
+});
+
+test('a signed request cannot be replayed', () => {
+  const ring = keyring('k1:s1');
+  const timestamp = now();
+  const signature = signBotRequest('s1', timestamp, 'nonce-replay', 'k1', 'GET', '/sessions/s1', '');
+
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-replay', signature, 'k1', 'GET', '/sessions/s1', ''), true);
+  assert.equal(ring.verifyRequest('k1', timestamp, 'nonce-replay', signature, 'k1', 'GET', '/sessions/s1', ''), false);
+});
+
+test('requests outside the clock skew window or without a nonce are rejected', () => {
+  const ring = keyring('k1:s1');
+  const old = (Math.floor(Date.now() / 1000) - 3600).toString();
+  const timestamp = now();
+
+  assert.equal(ring.verifyRequest('k1', old, 'nonce-old1', signBotRequest('s1', old, 'nonce-old1', 'k1', 'GET', '/', ''), 'k1', 'GET', '/', ''), false);
+  assert.equal(ring.verifyRequest('k1', timestamp, undefined, signBotRequest('s1', timestamp, '', 'k1', 'GET', '/', ''), 'k1', 'GET', '/', ''), false);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotOutbox, createBotOutbox } from '../src/botQueue';
+import { BotNotification } from '../src/protocol';
+import { testConfig, quietLogger } from './helpers';
+
+function queuePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-queue-')), 'bot-queue.json');
+}
+
+function expired(sessionId: string): BotNotification {
+  return { type: 'session_expired', userId: '1', chatId: '2', username: 'user', sessionId, state: 'created', reason: 'Timed out', timestamp: new Date().toISOString() };
+}
+
+function walletConnected(sessionId: string): BotNotification {
+  return { type: 'wallet_connected', userId: '1', chatId: '2', username: 'user', walletId: 'alice.near', txnLink: '', verified: true, sessionId, timestamp: new Date().toISOString() };
+}
+
+test('acks are cumulative and pending skips what the bot saw', () => {
+  const outbox = new BotOutbox(10, 60000);
+  [1, 2, 3].forEach(n => outbox.enqueue('botA', expired(`s${n}`)));
+
+  assert.deepEqual(outbox.pending('botA', 1).map(entry => entry.seq), [2, 3]);
+  outbox.ack('botA', 2);
+  assert.deepEqual(outbox.pending('botA').map(entry => entry.seq), [3]);
+  assert.deepEqual(outbox.pending('botB'), []);
+});
+
+test('queues are bounded by depth', () => {
+  const outbox = new BotOutbox(2, 60000);
+  [1, 2, 3].forEach(n => outbox.enqueue('botA', expired(`s${n}`)));
+
+  assert.deepEqual(outbox.pending('botA').map(entry => entry.seq), [2, 3]);
+  assert.equal(outbox.getStats().botA.dropped, 1);
+});
+
+test('each queue keeps its epoch, and a memory queue gets a new one after a restart', () => {
+  const outbox = new BotOutbox(10, 60000);
+  const epoch = outbox.epoch('botA');
+
+  assert.equal(outbox.epoch('botA'), epoch);
+  assert.notEqual(outbox.epoch('botB'), epoch);
+  assert.notEqual(new BotOutbox(10, 60000).epoch('botA'), epoch);
+});
+
+test('file queues are restored with their epoch and sequence', () => {
+  const filePath = queuePath();
+  const outbox = new BotOutbox(10, 60000, filePath, 1000, quietLogger);
+  outbox.enqueue('botA', expired('s1'));
+  outbox.enqueue('botA', expired('s2'));
+  outbox.ack('botA', 1);
+  const epoch = outbox.epoch('botA');
+  outbox.close();
+
+  const restored = new BotOutbox(10, 60000, filePath, 1000, quietLogger);
+
+  assert.equal(restored.epoch('botA'), epoch);
+  assert.deepEqual(restored.pending('botA').map(entry => entry.seq), [2]);
+  assert.equal(restored.enqueue('botA', expired('s3')).seq, 3);
+});
+
+test('session endings are on disk before enqueue returns, other changes are batched', () => {
+  const filePath = queuePath();
+  const outbox = new BotOutbox(10, 60000, filePath, 60000, quietLogger);
+
+  outbox.enqueue('botA', walletConnected('s1'));
+  assert.equal(fs.existsSync(filePath), false);
+
+  outbox.enqueue('botA', expired('s1'));
+  const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  assert.deepEqual(saved.botA.messages.map((entry: { seq: number }) => entry.seq), [1, 2]);
+  outbox.close();
+});
+
+test('queues are kept on file by default', () => {
+  const filePath = queuePath();
+  const config = testConfig({ BOT_QUEUE_STORE: '', BOT_QUEUE_PATH: filePath }).botQueue;
+  assert.equal(config.store, 'file');
+
+  createBotOutbox(config, quietLogger).enqueue('botA', expired('s1'));
+
+  assert.equal(createBotOutbox(config, quietLogger).pending('botA').length, 1);
+});
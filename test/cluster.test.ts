@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ClusterMessage, InProcessClusterBus, ReplicatedSessionStore, encodeCommand, parseResp } from '../src/cluster';
+import { MemorySessionStore } from '../src/sessionStore';
+import { makeSession } from './helpers';
+import { startServer } from './serverHarness';
+
+async function waitFor(check: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the cluster');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('RESP replies are parsed once they are complete', () => {
+  const buffer = Buffer.from('+OK\r\n-ERR nope\r\n:3\r\n$5\r\nhello\r\n$-1\r\n*2\r\n$7\r\nmessage\r\n*1\r\n:1\r\n');
+  const values = [];
+  for (let reply = parseResp(buffer, 0), offset = 0; reply; reply = parseResp(buffer, offset)) {
+    values.push(reply.value);
+    offset = reply.next;
+  }
+
+  assert.deepEqual(values, ['OK', new Error('ERR nope'), 3, 'hello', null, ['message', [1]]]);
+  assert.equal(parseResp(Buffer.from('$5\r\nhel'), 0), null);
+  assert.equal(parseResp(Buffer.from('*2\r\n:1\r\n'), 0), null);
+  assert.throws(() => parseResp(Buffer.from('?\r\n'), 0), /Unexpected Redis protocol reply prefix/);
+});
+
+test('commands are encoded as arrays of bulk strings', () => {
+  const command = encodeCommand(['PUBLISH', 'trsocket', 'héllo']);
+  const parsed = parseResp(Buffer.from(command), 0);
+
+  assert.equal(command, '*3\r\n$7\r\nPUBLISH\r\n$8\r\ntrsocket\r\n$6\r\nhéllo\r\n');
+  assert.deepEqual(parsed?.value, ['PUBLISH', 'trsocket', 'héllo']);
+});
+
+test('replicated updates older than the local copy are ignored and ties go to the higher instance', () => {
+  const published: ClusterMessage[] = [];
+  const store = new ReplicatedSessionStore(new MemorySessionStore(), {
+    instanceId: 'b',
+    publish: message => published.push(message),
+    subscribe: () => undefined,
+    close: async () => undefined
+  });
+  const update = (status: 'connected' | 'failed', revision: number): ClusterMessage =>
+    ({ type: 'session_updated', session: makeSession({ status }), revision });
+
+  store.set('session-1', makeSession({ status: 'created' }));
+  store.set('session-1', makeSession({ status: 'connected' }));
+  assert.deepEqual(published.map(message => message.type === 'session_updated' && message.revision), [1, 2]);
+
+  assert.equal(store.applyRemote(update('failed', 1), 'c'), false);
+  assert.equal(store.applyRemote(update('failed', 2), 'a'), false);
+  assert.equal(store.applyRemote(update('failed', 2), 'c'), true);
+  assert.equal(store.get('session-1')?.status, 'failed');
+  assert.equal(store.applyRemote(update('connected', 3), 'a'), true);
+  assert.equal(store.revision('session-1'), 3);
+
+  store.applyRemote({ type: 'session_deleted', sessionId: 'session-1' }, 'a');
+  assert.equal(store.get('session-1'), undefined);
+  assert.equal(published.length, 2);
+});
+
+test('an instance that joins later receives the sessions the others hold', async () => {
+  const bus = new InProcessClusterBus();
+  const first = await startServer({}, { cluster: bus.join('a') });
+  const { sessionId } = first.trsocket.createSession('1', '2', 'user');
+  first.trsocket.createSession('3', '4', 'user');
+
+  const second = await startServer({}, { cluster: bus.join('b') });
+  try {
+    await waitFor(() => second.trsocket.getAllSessions().length === 2);
+    assert.equal(second.trsocket.getSession(sessionId)?.status, 'created');
+  } finally {
+    await Promise.all([first.trsocket.close(), second.trsocket.close()]);
+  }
+});
+
+test('sessions restored from the file store are published to the cluster', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-cluster-'));
+  const env = { SESSION_STORE: 'file', SESSION_STORE_PATH: path.join(dir, 'sessions.log') };
+
+  const previous = await startServer(env);
+  const { sessionId } = previous.trsocket.createSession('1', '2', 'user');
+  await previous.trsocket.close();
+
+  const bus = new InProcessClusterBus();
+  const other = await startServer({}, { cluster: bus.join('a') });
+  const restarted = await startServer(env, { cluster: bus.join('b') });
+  try {
+    await waitFor(() => !!other.trsocket.getSession(sessionId));
+  } finally {
+    await Promise.all([other.trsocket.close(), restarted.trsocket.close()]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
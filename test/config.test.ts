@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, loadConfig } from '../src/config';
+import { lifetimeDeadline } from '../src/sessionState';
+
+function problems(env: Record<string, string>): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.problems;
+  }
+  assert.fail('Expected a ConfigError');
+}
+
+test('defaults need no settings outside production', () => {
+  const config = loadConfig({});
+
+  assert.equal(config.port, 3001);
+  assert.deepEqual(config.allowedOrigins, []);
+  assert.deepEqual(config.corsOrigins, ['*']);
+  assert.equal(config.sessions.store, 'file');
+  assert.equal(config.limits.maxPayloadBytes, 64 * 1024);
+  assert.equal(config.sessions.multiSessionDefaultLifetimeMs, 60 * 60 * 1000);
+  assert.equal(config.cluster.reconnectMinDelayMs, 500);
+  assert.equal(config.cluster.sweeperMaxMissed, 3);
+  assert.equal(config.logging.format, 'pretty');
+});
+
+test('every invalid setting is reported at once', () => {
+  assert.deepEqual(problems({ PORT: 'eighty', MAX_PAYLOAD_BYTES: '-1', SESSION_STORE: 'redis', WALLET_PROOF_REQUIRED: 'yes' }), [
+    'PORT: expected an integer >= 1, got "eighty"',
+    'SESSION_STORE: expected one of memory, file, got "redis"',
+    'MAX_PAYLOAD_BYTES: expected an integer >= 0, got "-1"',
+    'WALLET_PROOF_REQUIRED: expected true or false, got "yes"'
+  ]);
+});
+
+test('related settings are checked against each other', () => {
+  assert.deepEqual(problems({ MULTI_SESSION_DEFAULT_LIFETIME_MS: '7200000', MULTI_SESSION_MAX_LIFETIME_MS: '3600000' }), [
+    'MULTI_SESSION_DEFAULT_LIFETIME_MS: must not exceed MULTI_SESSION_MAX_LIFETIME_MS'
+  ]);
+  assert.deepEqual(problems({ CLUSTER_RECONNECT_MIN_DELAY_MS: '5000', CLUSTER_RECONNECT_MAX_DELAY_MS: '1000' }), [
+    'CLUSTER_RECONNECT_MIN_DELAY_MS: must not exceed CLUSTER_RECONNECT_MAX_DELAY_MS'
+  ]);
+  assert.deepEqual(problems({ CLUSTER_SWEEPER_MAX_MISSED: '1' }), ['CLUSTER_SWEEPER_MAX_MISSED: expected an integer >= 2, got "1"']);
+});
+
+test('production requires allowed origins and closes CORS by default', () => {
+  assert.match(problems({ NODE_ENV: 'production' }).join('\n'), /ALLOWED_ORIGINS is required with NODE_ENV=production/);
+
+  const config = loadConfig({ NODE_ENV: 'production', ALLOWED_ORIGINS: 'https://wallet.example' });
+  assert.deepEqual(config.allowedOrigins, ['https://wallet.example']);
+  assert.deepEqual(config.corsOrigins, []);
+  assert.equal(config.logging.format, 'json');
+  assert.deepEqual(problems({ ALLOWED_ORIGINS: 'https://wallet.example/path' }), [
+    `ALLOWED_ORIGINS: "https://wallet.example/path" is not '*' or an origin like https://app.example.com`
+  ]);
+});
+
+test('the config file fills in what the environment leaves out', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-config-'));
+  const file = path.join(dir, 'config.json');
+  fs.writeFileSync(file, JSON.stringify({ port: 4000, sessions: { multiSessionDefaultLifetimeMs: 600000 }, corsOrigins: ['https://a.example'] }));
+
+  const config = loadConfig({ CONFIG_FILE: file, PORT: '5000' });
+  assert.equal(config.port, 5000);
+  assert.deepEqual(config.corsOrigins, ['https://a.example']);
+  assert.equal(lifetimeDeadline(config, undefined, new Date(0)).getTime(), 600000);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
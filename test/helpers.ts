@@ -0,0 +1,47 @@
+import { Config, loadConfig } from '../src/config';
+import { Session } from '../src/types';
+import { Logger, createLogger } from '../src/logger';
+
+// Shared test fixtures
+//
+// Configuration is built from an explicit environment so tests never read process.env or a
+// .env file, and keeps sessions, bot queues and the ledger in memory unless a test asks for files.
+// Components get a logger that only reports errors.
+
+function testConfig(env: Record<string, string> = {}): Config {
+  return loadConfig({ BOT_AUTH_KEYS: 'k1:s1', LEDGER_STORE: 'memory', SESSION_STORE: 'memory', BOT_QUEUE_STORE: 'memory', ...env });
+}
+
+const quietLogger: Logger = createLogger({ level: 'error', format: 'json', redact: [] });
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  const now = new Date();
+  return {
+    sessionId: 'session-1',
+    userId: '1',
+    chatId: '2',
+    username: 'user',
+    botId: 'bot-1',
+    status: 'created',
+    statusChangedAt: now,
+    history: [{ status: 'created', at: now }],
+    stateExpiresAt: null,
+    createdAt: now,
+    connectedAt: null,
+    walletConnectedAt: null,
+    walletId: null,
+    txnLink: null,
+    tokenId: null,
+    tokenExpiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+    resumeSecretHash: null,
+    walletNonce: null,
+    transactionRequests: [],
+    ...overrides
+  };
+}
+
+export {
+  testConfig,
+  quietLogger,
+  makeSession
+};
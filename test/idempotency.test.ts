@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IdempotencyCache, fingerprint, lookupFailure } from '../src/idempotency';
+
+test('a key is reserved until its response is known and then replayed', () => {
+  const cache = new IdempotencyCache<string>({ ttlMs: 1000 });
+
+  assert.deepEqual(cache.begin('k', 'a', 0), { status: 'new' });
+  assert.deepEqual(cache.begin('k', 'a', 10), { status: 'in_progress' });
+  cache.complete('k', 'response', 500);
+  assert.deepEqual(cache.begin('k', 'a', 1400), { status: 'replay', response: 'response' });
+  assert.deepEqual(cache.begin('k', 'b', 1400), { status: 'conflict' });
+  assert.deepEqual(cache.begin('k', 'b', 1500), { status: 'new' });
+});
+
+test('released keys can be retried but completed ones are kept', () => {
+  const cache = new IdempotencyCache<string>({ ttlMs: 1000 });
+
+  cache.begin('failed', 'a', 0);
+  cache.release('failed');
+  assert.deepEqual(cache.begin('failed', 'b', 0), { status: 'new' });
+
+  cache.begin('done', 'a', 0);
+  cache.complete('done', 'response', 0);
+  cache.release('done');
+  assert.equal(cache.begin('done', 'a', 0).status, 'replay');
+});
+
+test('expired entries are pruned', () => {
+  const cache = new IdempotencyCache<string>({ ttlMs: 1000 });
+  cache.begin('old', 'a', 0);
+  cache.begin('new', 'a', 500);
+
+  assert.equal(cache.prune(1000), 1);
+  assert.equal(cache.size, 1);
+});
+
+test('fingerprints ignore key order and lookups map to operation failures', () => {
+  assert.equal(fingerprint({ a: 1, b: { c: 2, d: 3 } }), fingerprint({ b: { d: 3, c: 2 }, a: 1 }));
+  assert.notEqual(fingerprint({ a: 1 }), fingerprint({ a: 2 }));
+
+  assert.equal(lookupFailure({ status: 'conflict' })?.code, 'idempotency_conflict');
+  assert.equal(lookupFailure({ status: 'in_progress' })?.code, 'request_in_progress');
+  assert.equal(lookupFailure({ status: 'new' }), null);
+});
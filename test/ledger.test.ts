@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLedger, LedgerEntry, MemoryLedger, ledgerToCsv } from '../src/ledger';
+import { quietLogger } from './helpers';
+
+type LedgerFields = Omit<LedgerEntry, 'entryId' | 'recordedAt'>;
+
+function fields(overrides: Partial<LedgerFields> = {}): LedgerFields {
+  return {
+    outcome: 'transaction_completed',
+    sessionId: 'session-1',
+    botId: 'bot-1',
+    userId: '1',
+    chatId: '2',
+    username: 'user',
+    walletId: 'alice.near',
+    requestId: null,
+    transactionData: null,
+    success: true,
+    txHash: 'hash',
+    error: null,
+    disconnectPurpose: null,
+    sessionCreatedAt: new Date('2026-01-01T00:00:00Z'),
+    requestedAt: null,
+    ...overrides
+  };
+}
+
+// Cells of the first data row, by column name
+function csvRow(entry: LedgerEntry): Record<string, string> {
+  const [header, row] = ledgerToCsv([entry]).split('\r\n');
+  const cells = row.match(/("(?:[^"]|"")*"|[^,]*)(?:,|$)/g)!.map(cell => cell.replace(/,$/, ''));
+  return Object.fromEntries(header.split(',').map((column, index) => [column, cells[index]]));
+}
+
+test('text cells that a spreadsheet would run as formulas are kept as text', () => {
+  const ledger = new MemoryLedger();
+  const row = csvRow(ledger.record(fields({ username: '=HYPERLINK("http://evil")', walletId: '+1', error: '-2+3', disconnectPurpose: '@SUM(A1)' })));
+
+  assert.equal(row.username, `"'=HYPERLINK(""http://evil"")"`);
+  assert.equal(row.walletId, `'+1`);
+  assert.equal(row.error, `'-2+3`);
+  assert.equal(row.disconnectPurpose, `'@SUM(A1)`);
+  assert.equal(row.chatId, '2');
+});
+
+test('values with commas, quotes and line breaks are quoted', () => {
+  const ledger = new MemoryLedger();
+  const row = csvRow(ledger.record(fields({ error: 'rejected, "try again"', success: false, requestedAt: new Date('2026-01-01T00:01:00Z') })));
+
+  assert.equal(row.error, '"rejected, ""try again"""');
+  assert.equal(row.success, 'false');
+  assert.equal(row.requestedAt, '2026-01-01T00:01:00.000Z');
+  assert.equal(row.requestId, '');
+  assert.match(ledgerToCsv([]), /^entryId,outcome,recordedAt,[a-zA-Z,]+,transactionData\r\n$/);
+});
+
+test('the file ledger reads its entries back and can be queried', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-ledger-'));
+  const filePath = path.join(dir, 'ledger.log');
+
+  const ledger = new FileLedger(filePath, quietLogger);
+  ledger.record(fields());
+  ledger.record(fields({ userId: '9', success: false }));
+  fs.appendFileSync(filePath, '{"partial');
+
+  const reopened = new FileLedger(filePath, quietLogger);
+  assert.equal(reopened.size, 2);
+  assert.deepEqual(reopened.query({ success: false }).map(entry => entry.userId), ['9']);
+  assert.ok(reopened.query({ userId: '1' })[0].sessionCreatedAt instanceof Date);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { ConnectionTracker, RejectionCounters, allowMessage, clientAddress, exceeds } from '../src/limits';
+
+function incoming(forwardedFor?: string, remoteAddress: string = '10.0.0.1'): http.IncomingMessage {
+  return { headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress } } as unknown as http.IncomingMessage;
+}
+
+test('the client address ignores X-Forwarded-For unless the proxy is trusted', () => {
+  assert.equal(clientAddress(incoming('1.1.1.1'), false), '10.0.0.1');
+  assert.equal(clientAddress(incoming(), true), '10.0.0.1');
+  assert.equal(clientAddress(incoming('1.1.1.1'), true), '1.1.1.1');
+});
+
+test('only the entry added by the outermost trusted proxy is used', () => {
+  const forged = 'forged.example, 2.2.2.2, 3.3.3.3';
+
+  assert.equal(clientAddress(incoming(forged), true, 1), '3.3.3.3');
+  assert.equal(clientAddress(incoming(forged), true, 2), '2.2.2.2');
+  assert.equal(clientAddress(incoming('2.2.2.2'), true, 3), '2.2.2.2');
+  assert.equal(clientAddress(incoming(' , '), true), '10.0.0.1');
+});
+
+test('a limit of 0 is off', () => {
+  assert.equal(exceeds(1000, 0), false);
+  assert.equal(exceeds(2, 3), false);
+  assert.equal(exceeds(3, 3), true);
+});
+
+test('connections are counted per address until released', () => {
+  const tracker = new ConnectionTracker(2);
+
+  assert.equal(tracker.acquire('a'), true);
+  assert.equal(tracker.acquire('a'), true);
+  assert.equal(tracker.acquire('a'), false);
+  assert.equal(tracker.acquire('b'), true);
+
+  tracker.release('a');
+  assert.equal(tracker.acquire('a'), true);
+});
+
+test('messages are counted in one-second windows', () => {
+  const window = { startedAt: 0, count: 0 };
+
+  assert.equal(allowMessage(window, 2, 1000), true);
+  assert.equal(allowMessage(window, 2, 1500), true);
+  assert.equal(allowMessage(window, 2, 1999), false);
+  assert.equal(allowMessage(window, 2, 2000), true);
+  assert.equal(allowMessage({ startedAt: 0, count: 500 }, 0, 10), true);
+});
+
+test('rejection counters are copied out', () => {
+  const counters = new RejectionCounters();
+  counters.increment('rate_limited');
+  const snapshot = counters.snapshot();
+  counters.increment('rate_limited');
+
+  assert.equal(snapshot.rate_limited, 1);
+  assert.equal(counters.snapshot().rate_limited, 2);
+  assert.equal(snapshot.connection_limit, 0);
+});
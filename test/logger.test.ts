@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_REDACTED_FIELDS, Logger, LoggingConfig, createLogger } from '../src/logger';
+
+// Lines written to stdout and stderr while `write` runs
+function capture(write: () => void): string[] {
+  const lines: string[] = [];
+  const stdout = process.stdout.write;
+  const stderr = process.stderr.write;
+  const collect = (chunk: string | Uint8Array) => {
+    lines.push(...chunk.toString().split('\n').filter(Boolean));
+    return true;
+  };
+  process.stdout.write = collect as typeof process.stdout.write;
+  process.stderr.write = collect as typeof process.stderr.write;
+  try {
+    write();
+  } finally {
+    process.stdout.write = stdout;
+    process.stderr.write = stderr;
+  }
+  return lines;
+}
+
+function jsonLogger(config: Partial<LoggingConfig> = {}): Logger {
+  return createLogger({ level: 'debug', format: 'json', redact: DEFAULT_REDACTED_FIELDS, ...config });
+}
+
+test('redacted fields are masked at any depth and in any case', () => {
+  const [line] = capture(() => jsonLogger().info('Wallet connected', {
+    sessionId: 's1',
+    WalletId: 'alice.near',
+    notification: { chatId: 2, nested: [{ txHash: 'abc', amount: '1' }] },
+    signature: null
+  }));
+
+  assert.deepEqual(JSON.parse(line), {
+    time: JSON.parse(line).time,
+    level: 'info',
+    msg: 'Wallet connected',
+    sessionId: 's1',
+    WalletId: '[redacted]',
+    notification: { chatId: '[redacted]', nested: [{ txHash: '[redacted]', amount: '1' }] },
+    signature: null
+  });
+});
+
+test('fields added by child loggers are redacted too', () => {
+  const [pretty] = capture(() => createLogger({ level: 'info', format: 'pretty', redact: ['userId'] }).child({ userId: 7 }).warn('Rate limited', { token: 't' }));
+
+  assert.match(pretty, /WARN  Rate limited userId=\[redacted\] token=t$/);
+});
+
+test('redaction can be turned off and levels below the minimum are dropped', () => {
+  const lines = capture(() => {
+    const log = jsonLogger({ level: 'warn', redact: [] });
+    log.info('Dropped');
+    log.warn('Kept', { walletId: 'alice.near' });
+  });
+
+  assert.equal(lines.length, 1);
+  assert.equal(JSON.parse(lines[0]).walletId, 'alice.near');
+});
+
+test('errors are logged as plain objects', () => {
+  const [line] = capture(() => jsonLogger().error('Failed', { error: new Error('boom') }));
+  const { error } = JSON.parse(line);
+
+  assert.equal(error.name, 'Error');
+  assert.equal(error.message, 'boom');
+  assert.match(error.stack, /boom/);
+});
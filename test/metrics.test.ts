@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServerMetrics, purposeLabel } from '../src/metrics';
+
+test('sessions are counted under a fixed set of purposes', () => {
+  const metrics = createServerMetrics({ sessionsByStatus: () => ({}), botConnections: () => 0, frontendConnections: () => 0 });
+  [undefined, 'wallet_disconnect', 'order-1', 'order-2'].forEach(purpose => metrics.sessionsCreated.inc({ purpose: purposeLabel(purpose) }));
+
+  const series = metrics.registry.render().split('\n').filter(line => line.startsWith('trsocket_sessions_created_total'));
+  assert.deepEqual(series.sort(), [
+    'trsocket_sessions_created_total{purpose="none"} 1',
+    'trsocket_sessions_created_total{purpose="other"} 2',
+    'trsocket_sessions_created_total{purpose="wallet_disconnect"} 1'
+  ]);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateInbound } from '../src/protocol';
+
+function errorPaths(data: unknown): string[] {
+  const result = validateInbound(data);
+  assert.equal(result.ok, false);
+  return result.ok ? [] : result.errors.map(error => error.path);
+}
+
+test('well-formed messages are accepted as they are', () => {
+  const message = { type: 'create_session', userId: 1, chatId: '2', username: 'user', extra: 'kept' };
+  const result = validateInbound(message);
+
+  assert.equal(result.ok, true);
+  assert.equal(result.ok && result.message, message);
+  assert.equal(validateInbound({ type: 'ping' }).ok, true);
+});
+
+test('non-objects and messages without a type are invalid', () => {
+  assert.deepEqual(errorPaths('ping'), ['$']);
+  assert.deepEqual(errorPaths([]), ['$']);
+  assert.deepEqual(errorPaths({ sessionId: 's1' }), ['type']);
+});
+
+test('unknown types are reported as such', () => {
+  const result = validateInbound({ type: 'launch_missiles' });
+
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.unknownType, true);
+});
+
+test('every missing or mistyped field is reported with its path', () => {
+  assert.deepEqual(errorPaths({ type: 'create_session', userId: '', chatId: 2 }), ['userId', 'username']);
+  assert.deepEqual(errorPaths({ type: 'transaction_result', sessionId: 's1', success: 'yes' }), ['success']);
+  assert.deepEqual(errorPaths({ type: 'bot_ack', seq: 0 }), ['seq']);
+  assert.deepEqual(errorPaths({ type: 'wallet_connected', sessionId: 's1', walletId: 'alice.near', signedMessage: { accountId: 'Alice' } }), [
+    'signedMessage.accountId',
+    'signedMessage.publicKey',
+    'signedMessage.signature'
+  ]);
+});
+
+test('idempotency keys are bounded', () => {
+  const base = { type: 'create_disconnect_session', userId: 1, chatId: 2, username: 'user' };
+
+  assert.equal(validateInbound({ ...base, idempotencyKey: 'k'.repeat(255) }).ok, true);
+  assert.deepEqual(errorPaths({ ...base, idempotencyKey: 'k'.repeat(256) }), ['idempotencyKey']);
+});
+
+test('multi-transaction sessions take their transactions through process_transaction', () => {
+  const base = { type: 'create_session', userId: 1, chatId: 2, username: 'user' };
+
+  assert.equal(validateInbound({ ...base, multiTransaction: { maxTransactions: 3 } }).ok, true);
+  assert.deepEqual(errorPaths({ ...base, multiTransaction: {}, transactionData: { receiver: 'shop.near', amount: '1' } }), ['transactionData']);
+  assert.deepEqual(errorPaths({ ...base, multiTransaction: { lifetimeMs: 1.5 } }), ['multiTransaction.lifetimeMs']);
+});
@@ -0,0 +1,127 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BotKeyring, signBotRequest } from '../src/botAuth';
+import { BotSessionOperations, createRestApi } from '../src/restApi';
+import { CreateSessionParams } from '../src/types';
+import { makeSession, quietLogger } from './helpers';
+
+// Bot operations stand-in that records which bot created which session
+
+const created: { botId: string; params: CreateSessionParams }[] = [];
+
+const operations: BotSessionOperations = {
+  createSession: (botId, params) => {
+    created.push({ botId, params });
+    return { ok: true, created: { sessionId: 'session-1', token: 'token-1', tokenExpiresAt: new Date() } };
+  },
+  findSession: (botId, sessionId) => botId === 'botA' && sessionId === 'session-1' ? makeSession({ botId }) : undefined,
+  requestTransaction: () => ({ ok: false, code: 'not_found', message: 'Invalid session' }),
+  cancelSession: () => ({ ok: false, code: 'not_found', message: 'Invalid session' })
+};
+
+let server: http.Server;
+let port: number;
+
+before(async () => {
+  const keyring = new BotKeyring({ keys: 'k1:s1,k2:s2', keysFile: null, keyBots: 'k1:botA', challengeTtlMs: 30000, requestMaxSkewMs: 300000 });
+  keyring.load();
+  const api = createRestApi(operations, keyring, 64 * 1024, quietLogger);
+  server = http.createServer((req, res) => api.handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+interface Signed {
+  keyId?: string;
+  secret?: string;
+  botId?: string;
+  nonce?: string;
+  // Body actually sent, when it differs from the signed one
+  sentBody?: string;
+}
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+function request(method: string, path: string, body: string, signed: Signed = {}): Promise<Response> {
+  const { keyId = 'k1', secret = 's1', botId, nonce = crypto.randomBytes(12).toString('hex') } = signed;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const sentBody = signed.sentBody ?? body;
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      method,
+      path,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(sentBody),
+        'X-Bot-Key-Id': keyId,
+        ...(botId && { 'X-Bot-Id': botId }),
+        'X-Bot-Timestamp': timestamp,
+        'X-Bot-Nonce': nonce,
+        'X-Bot-Signature': signBotRequest(secret, timestamp, nonce, botId || keyId, method, path, body)
+      }
+    }, res => {
+      let text = '';
+      res.on('data', chunk => text += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: JSON.parse(text) }));
+    });
+    req.on('error', reject);
+    req.end(sentBody);
+  });
+}
+
+const createBody = JSON.stringify({ userId: 1, chatId: 2, username: 'user' });
+
+test('a signed request creates a session for the bot it names', async () => {
+  created.length = 0;
+  const response = await request('POST', '/sessions', createBody, { botId: 'botA' });
+
+  assert.equal(response.status, 201);
+  assert.equal(response.body.sessionId, 'session-1');
+  assert.equal(created[0].botId, 'botA');
+  assert.equal(created[0].params.username, 'user');
+});
+
+test('a body other than the signed one is rejected', async () => {
+  const response = await request('POST', '/sessions', createBody, { sentBody: JSON.stringify({ userId: 1, chatId: 2, username: 'mallory' }) });
+  assert.equal(response.status, 401);
+});
+
+test('a replayed nonce is rejected', async () => {
+  const first = await request('GET', '/sessions/session-1', '', { botId: 'botA', nonce: 'replayed-nonce' });
+  const second = await request('GET', '/sessions/session-1', '', { botId: 'botA', nonce: 'replayed-nonce' });
+
+  assert.equal(first.status, 200);
+  assert.equal(second.status, 401);
+});
+
+test('keys cannot act as bots they are not bound to', async () => {
+  const response = await request('GET', '/sessions/session-1', '', { keyId: 'k2', secret: 's2', botId: 'botA' });
+  assert.equal(response.status, 403);
+});
+
+test('invalid bodies get every validation error', async () => {
+  const response = await request('POST', '/sessions', JSON.stringify({ userId: 1 }));
+
+  assert.equal(response.status, 400);
+  assert.deepEqual(response.body.errors.map((error: { path: string }) => error.path), ['chatId', 'username']);
+});
+
+test('oversized bodies get 413 and the connection is closed', async () => {
+  const response = await request('POST', '/sessions', JSON.stringify({ padding: 'x'.repeat(100 * 1024) }));
+
+  assert.equal(response.status, 413);
+  assert.equal(response.body.code, 'payload_too_large');
+  assert.equal(response.headers.connection, 'close');
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { TrSocketServer, TrSocketServerOptions, createTrSocketServer } from '../src/trSocketServer';
+import { testConfig } from './helpers';
+
+// Servers and WebSocket clients for end-to-end tests
+//
+// startServer() listens on a free port with test settings (memory stores, bot key k1:s1, no
+// wallet proofs, quiet logs). TestSocket collects every message so tests can wait for a type.
+
+interface RunningServer {
+  trsocket: TrSocketServer;
+  url: string;
+  port: number;
+}
+
+const TEST_ENV: Record<string, string> = {
+  WALLET_PROOF_REQUIRED: 'false',
+  LOG_LEVEL: 'error',
+  LOG_FORMAT: 'json',
+  SHUTDOWN_GRACE_PERIOD_MS: '0'
+};
+
+async function startServer(env: Record<string, string> = {}, options: Omit<TrSocketServerOptions, 'config'> = {}): Promise<RunningServer> {
+  const trsocket = createTrSocketServer({ ...options, config: testConfig({ ...TEST_ENV, ...env }) });
+  const server = await trsocket.listen(0);
+  const { port } = server.address() as AddressInfo;
+  return { trsocket, url: `ws://127.0.0.1:${port}`, port };
+}
+
+class TestSocket {
+  readonly received: any[] = [];
+  private waiters: (() => void)[] = [];
+
+  constructor(readonly ws: WebSocket) {
+    ws.on('message', raw => {
+      this.received.push(JSON.parse(raw.toString()));
+      this.waiters.forEach(waiter => waiter());
+    });
+  }
+
+  send(message: object): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  // The first unclaimed message of the given type
+  next(type: string, timeoutMs: number = 3000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(waiter => waiter !== check);
+        reject(new Error(`No ${type} message, got ${this.received.map(message => message.type).join(', ') || 'nothing'}`));
+      }, timeoutMs);
+      const check = () => {
+        const index = this.received.findIndex(message => message.type === type);
+        if (index < 0) return;
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter(waiter => waiter !== check);
+        resolve(this.received.splice(index, 1)[0]);
+      };
+      this.waiters.push(check);
+      check();
+    });
+  }
+
+  close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) return Promise.resolve();
+    return new Promise(resolve => {
+      this.ws.once('close', () => resolve());
+      this.ws.close();
+    });
+  }
+}
+
+async function connect(url: string): Promise<TestSocket> {
+  const socket = new TestSocket(new WebSocket(url));
+  await socket.next('connected');
+  return socket;
+}
+
+// A bot authenticated with the test key
+async function connectBot(url: string, botId?: string): Promise<TestSocket> {
+  const bot = await connect(url);
+  bot.send({ type: 'bot_connect', ...(botId && { botId }) });
+  const { nonce } = await bot.next('bot_challenge');
+  bot.send({ type: 'bot_auth', keyId: 'k1', signature: crypto.createHmac('sha256', 's1').update(nonce).digest('hex') });
+  await bot.next('bot_connected');
+  return bot;
+}
+
+// A wallet frontend that redeemed the session token; resolves with session_initialized
+async function connectFrontend(url: string, token: string): Promise<{ frontend: TestSocket; initialized: any }> {
+  const frontend = await connect(url);
+  frontend.send({ type: 'init_session', token });
+  return { frontend, initialized: await frontend.next('session_initialized') };
+}
+
+export {
+  RunningServer,
+  TestSocket,
+  startServer,
+  connect,
+  connectBot,
+  connectFrontend
+};
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SessionTransitionError,
+  canTransition,
+  isRequestTimeout,
+  isTerminal,
+  isTimedOut,
+  timeoutReason,
+  transition
+} from '../src/sessionState';
+import { testConfig, makeSession } from './helpers';
+
+test('sessions follow the lifecycle', () => {
+  const config = testConfig();
+  const session = makeSession();
+
+  transition(config, session, 'connected');
+  transition(config, session, 'wallet_connected');
+  transition(config, session, 'tx_pending');
+  transition(config, session, 'completed', 'Paid');
+
+  assert.equal(session.status, 'completed');
+  assert.deepEqual(session.history.map(entry => entry.status), ['created', 'connected', 'wallet_connected', 'tx_pending', 'completed']);
+  assert.equal(session.history[4].reason, 'Paid');
+  assert.equal(session.stateExpiresAt, null);
+});
+
+test('illegal transitions throw and leave the session alone', () => {
+  const config = testConfig();
+  const session = makeSession();
+
+  assert.throws(() => transition(config, session, 'tx_pending'), SessionTransitionError);
+  assert.equal(session.status, 'created');
+  assert.equal(session.history.length, 1);
+});
+
+test('terminal states have no way out', () => {
+  for (const status of ['completed', 'failed', 'expired'] as const) {
+    assert.equal(isTerminal(status), true);
+    assert.equal(canTransition(status, 'connected'), false);
+    assert.equal(canTransition(status, 'expired'), false);
+  }
+  assert.equal(isTerminal('tx_pending'), false);
+  assert.equal(canTransition('tx_pending', 'wallet_connected'), true);
+  assert.equal(canTransition('connected', 'completed'), true);
+});
+
+test('each timed state gets its own deadline', () => {
+  const config = testConfig({ SESSION_TIMEOUT_CONNECTED_MS: '1000' });
+  const session = makeSession();
+  const before = Date.now();
+
+  transition(config, session, 'connected');
+
+  assert.ok(session.stateExpiresAt);
+  assert.ok(session.stateExpiresAt.getTime() >= before + 1000);
+  assert.equal(isTimedOut(session, new Date(before)), false);
+  assert.equal(isTimedOut(session, new Date(session.stateExpiresAt.getTime())), true);
+  assert.equal(timeoutReason(session), 'Wallet was not connected in time');
+});
+
+test('multi-transaction sessions wait for the next request until their lifetime ends', () => {
+  const config = testConfig();
+  const expiresAt = new Date(Date.now() + 5000);
+  const session = makeSession({ status: 'tx_pending', multiTransaction: { maxTransactions: null, expiresAt } });
+
+  transition(config, session, 'wallet_connected');
+
+  assert.equal(session.stateExpiresAt?.getTime(), expiresAt.getTime());
+  assert.equal(timeoutReason(session, new Date(expiresAt.getTime() + 1)), 'Session lifetime reached');
+});
+
+test('a pending multi-transaction request times out on its own until the lifetime ends', () => {
+  const expiresAt = new Date(Date.now() + 5000);
+  const session = makeSession({ status: 'tx_pending', multiTransaction: { maxTransactions: null, expiresAt } });
+
+  assert.equal(isRequestTimeout(session), true);
+  assert.equal(isRequestTimeout(session, expiresAt), false);
+  assert.equal(isRequestTimeout(makeSession({ status: 'tx_pending' })), false);
+  assert.equal(isRequestTimeout({ ...session, status: 'wallet_connected' }), false);
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSessionStore, createSessionStore } from '../src/sessionStore';
+import { testConfig, makeSession, quietLogger } from './helpers';
+
+function storePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'trsocket-sessions-')), 'sessions.log');
+}
+
+test('the file store is the default', () => {
+  assert.equal(testConfig({ SESSION_STORE: '' }).sessions.store, 'file');
+});
+
+test('sessions survive a restart of the file store', () => {
+  const filePath = storePath();
+  const store = new FileSessionStore(filePath, quietLogger);
+  const session = makeSession({ sessionId: 'kept', status: 'wallet_connected', walletId: 'alice.near' });
+  store.set('kept', session);
+  store.set('gone', makeSession({ sessionId: 'gone' }));
+  store.delete('gone');
+
+  const restored = new FileSessionStore(filePath, quietLogger);
+
+  assert.equal(restored.size, 1);
+  const kept = restored.get('kept');
+  assert.ok(kept);
+  assert.equal(kept.walletId, 'alice.near');
+  assert.ok(kept.createdAt instanceof Date);
+  assert.equal(kept.createdAt.getTime(), session.createdAt.getTime());
+  assert.ok(kept.history[0].at instanceof Date);
+});
+
+test('finished sessions are not restored', () => {
+  const filePath = storePath();
+  const store = new FileSessionStore(filePath, quietLogger);
+  store.set('done', makeSession({ sessionId: 'done', status: 'completed' }));
+  store.set('open', makeSession({ sessionId: 'open', status: 'tx_pending' }));
+
+  const restored = new FileSessionStore(filePath, quietLogger);
+
+  assert.deepEqual(restored.values().map(session => session.sessionId), ['open']);
+});
+
+test('a partially written last line is skipped and the log is compacted', () => {
+  const filePath = storePath();
+  const store = new FileSessionStore(filePath, quietLogger);
+  store.set('first', makeSession({ sessionId: 'first' }));
+  store.set('first', makeSession({ sessionId: 'first', status: 'connected' }));
+  fs.appendFileSync(filePath, '{"op":"set","sess');
+
+  const restored = new FileSessionStore(filePath, quietLogger);
+
+  assert.equal(restored.get('first')?.status, 'connected');
+  assert.equal(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 1);
+});
+
+test('logged transactions from before normalization are normalized', () => {
+  const filePath = storePath();
+  const legacy = { ...makeSession({ sessionId: 'legacy' }), transactionData: { receiver: 'shop.near', amount: '1.5' } };
+  fs.writeFileSync(filePath, JSON.stringify({ op: 'set', session: legacy }) + '\n');
+
+  const restored = createSessionStore({ ...testConfig().sessions, store: 'file', storePath: filePath }, quietLogger);
+
+  assert.deepEqual(restored.get('legacy')?.transactionData?.actions, [
+    { type: 'Transfer', params: { deposit: '1500000000000000000000000' } }
+  ]);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionTokenSigner, issueResumeSecret, verifyResumeSecret } from '../src/sessionTokens';
+import { testConfig } from './helpers';
+
+const SECRET = 'a'.repeat(32);
+
+test('issued tokens verify and carry the session ID', () => {
+  const signer = new SessionTokenSigner(testConfig({ SESSION_TOKEN_SECRET: SECRET }).sessions);
+  const issued = signer.issue('session-1');
+  const payload = signer.verify(issued.token);
+
+  assert.ok(payload);
+  assert.equal(payload.sid, 'session-1');
+  assert.equal(payload.jti, issued.tokenId);
+  assert.equal(payload.exp, issued.expiresAt.getTime());
+});
+
+test('tampered, foreign and malformed tokens are rejected', () => {
+  const signer = new SessionTokenSigner(testConfig({ SESSION_TOKEN_SECRET: SECRET }).sessions);
+  const { token } = signer.issue('session-1');
+  const [payload, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ sid: 'session-2', jti: 'x', exp: Date.now() + 60000 })).toString('base64url');
+
+  assert.equal(signer.verify(`${forged}.${signature}`), null);
+  assert.equal(signer.verify(`${payload}.${signature.slice(0, -2)}AA`), null);
+  assert.equal(signer.verify(`${token}.extra`), null);
+  assert.equal(signer.verify(42), null);
+
+  const other = new SessionTokenSigner(testConfig({ SESSION_TOKEN_SECRET: 'b'.repeat(32) }).sessions);
+  assert.equal(other.verify(token), null);
+});
+
+test('expired tokens are rejected', () => {
+  const signer = new SessionTokenSigner({ ...testConfig({ SESSION_TOKEN_SECRET: SECRET }).sessions, tokenTtlMs: -1 });
+  const { token } = signer.issue('session-1');
+
+  assert.equal(signer.verify(token), null);
+});
+
+test('without a configured secret each signer only accepts its own tokens', () => {
+  const config = testConfig().sessions;
+  const first = new SessionTokenSigner(config);
+  const second = new SessionTokenSigner(config);
+  const { token } = first.issue('session-1');
+
+  assert.equal(first.hasConfiguredSecret, false);
+  assert.equal(first.verify(token)?.sid, 'session-1');
+  assert.equal(second.verify(token), null);
+  assert.equal(new SessionTokenSigner(testConfig({ SESSION_TOKEN_SECRET: SECRET }).sessions).hasConfiguredSecret, true);
+});
+
+test('resume secrets only match their own hash', () => {
+  const first = issueResumeSecret();
+  const second = issueResumeSecret();
+
+  assert.equal(verifyResumeSecret(first.secret, first.hash), true);
+  assert.equal(verifyResumeSecret(second.secret, first.hash), false);
+  assert.equal(verifyResumeSecret(first.secret, null), false);
+  assert.equal(verifyResumeSecret(undefined, first.hash), false);
+});
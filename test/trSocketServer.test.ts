@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import path from 'path';
+import { execFile } from 'child_process';
+import { startServer, connect, connectBot, connectFrontend } from './serverHarness';
+
+function getJson(port: number, path: string): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path }, res => {
+      let text = '';
+      res.on('data', chunk => text += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(text) }));
+    }).on('error', reject);
+  });
+}
+
+test('/status reports totals without session or bot IDs', async () => {
+  const { trsocket, url, port } = await startServer();
+  const bot = await connectBot(url, 'k1');
+  const { sessionId, token } = trsocket.createSession('1', '2', 'user', undefined, 'k1');
+  const { frontend } = await connectFrontend(url, token);
+
+  const { status, body } = await getJson(port, '/status');
+  const text = JSON.stringify(body);
+
+  assert.equal(status, 200);
+  assert.equal(body.liveness.frontends.connections, 1);
+  assert.equal(body.liveness.bots.connections, 1);
+  assert.equal(body.botQueues.queues, 1);
+  assert.ok(!text.includes(sessionId));
+  assert.ok(!text.includes('k1'));
+
+  await Promise.all([bot.close(), frontend.close()]);
+  await trsocket.close();
+});
+
+test('a multi-transaction request that times out fails alone and the session waits for the next one', async () => {
+  const { trsocket, url } = await startServer({ SESSION_TIMEOUT_TX_PENDING_MS: '200', TIMEOUT_CHECK_INTERVAL_MS: '100' });
+  const bot = await connectBot(url);
+  bot.send({ type: 'create_session', userId: 1, chatId: 2, username: 'user', multiTransaction: { maxTransactions: 3 } });
+  const { sessionId, token } = await bot.next('session_created');
+  const { frontend } = await connectFrontend(url, token);
+  frontend.send({ type: 'wallet_connected', sessionId, walletId: 'alice.near' });
+  await frontend.next('wallet_connection_received');
+
+  bot.send({ type: 'process_transaction', sessionId, transactionData: { receiver: 'shop.near', amount: '1' } });
+  const { requestId } = await frontend.next('process_transaction');
+
+  const failure = await bot.next('transaction_completed');
+  const expired = await frontend.next('transaction_request_expired');
+  assert.equal(failure.requestId, requestId);
+  assert.equal(failure.success, false);
+  assert.equal(failure.error, 'Transaction was not signed in time');
+  assert.equal(expired.requestId, requestId);
+  assert.equal(expired.sessionClosed, false);
+  assert.equal(trsocket.getSession(sessionId)?.status, 'wallet_connected');
+  assert.equal(trsocket.getSession(sessionId)?.transactionRequests[0].status, 'failed');
+  assert.ok(!bot.received.some(message => message.type === 'session_expired'));
+
+  bot.send({ type: 'process_transaction', sessionId, transactionData: { receiver: 'shop.near', amount: '2' } });
+  const next = await frontend.next('process_transaction');
+  assert.notEqual(next.requestId, requestId);
+
+  await Promise.all([bot.close(), frontend.close()]);
+  await trsocket.close();
+});
+
+test('close() warns clients, refuses new sessions and waits for a transaction with a wallet', async () => {
+  const { trsocket, url } = await startServer({ SHUTDOWN_GRACE_PERIOD_MS: '5000' });
+  const bot = await connectBot(url);
+  bot.send({ type: 'create_session', userId: 1, chatId: 2, username: 'user', multiTransaction: {} });
+  const { sessionId, token } = await bot.next('session_created');
+  const { frontend } = await connectFrontend(url, token);
+  frontend.send({ type: 'wallet_connected', sessionId, walletId: 'alice.near' });
+  await frontend.next('wallet_connection_received');
+  bot.send({ type: 'process_transaction', sessionId, transactionData: { receiver: 'shop.near', amount: '1' } });
+  await frontend.next('process_transaction');
+
+  const botClosed = new Promise<number>(resolve => bot.ws.once('close', code => resolve(code)));
+  let closed = false;
+  const closing = trsocket.close().then(() => closed = true);
+
+  assert.equal((await bot.next('server_shutting_down')).closesWithinMs, 5000);
+  await frontend.next('server_shutting_down');
+  bot.send({ type: 'create_session', userId: 3, chatId: 4, username: 'user' });
+  assert.equal((await bot.next('error')).code, 'shutting_down');
+  await new Promise(resolve => setTimeout(resolve, 300));
+  assert.equal(closed, false);
+
+  frontend.send({ type: 'transaction_result', sessionId, success: false, error: 'User rejected' });
+  assert.equal((await bot.next('transaction_completed')).success, false);
+  await closing;
+  assert.equal(await botClosed, 1001);
+});
+
+test('a closed server leaves nothing behind that keeps the process running', async () => {
+  const script = `
+    const { createTrSocketServer } = require('./src/trSocketServer');
+    const { testConfig } = require('./test/helpers');
+    const trsocket = createTrSocketServer({ config: testConfig({ LOG_LEVEL: 'error', SHUTDOWN_GRACE_PERIOD_MS: '0' }) });
+    trsocket.listen(0).then(() => {
+      trsocket.createSession('1', '2', 'user');
+      return trsocket.close();
+    });
+  `;
+  const exited = await new Promise<boolean>(resolve => execFile(
+    process.execPath,
+    ['--require', 'ts-node/register', '-e', script],
+    { cwd: path.join(__dirname, '..'), env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' }, timeout: 30000 },
+    error => resolve(!error)
+  ));
+
+  assert.equal(exited, true);
+});
+
+test('a result retried after the session closed and was swept is replayed', async () => {
+  const { trsocket, url } = await startServer({ SESSION_RESULT_CLEANUP_DELAY_MS: '0', CLEANUP_INTERVAL_MS: '1000' });
+  const bot = await connectBot(url);
+  const resumed = await connect(url);
+  try {
+    bot.send({ type: 'create_session', userId: 1, chatId: 2, username: 'user', transactionData: { receiver: 'shop.near', amount: '1' } });
+    const { sessionId, token } = await bot.next('session_created');
+    const { frontend, initialized } = await connectFrontend(url, token);
+    frontend.send({ type: 'wallet_connected', sessionId, walletId: 'alice.near' });
+    await frontend.next('wallet_connection_received');
+
+    const result = { type: 'transaction_result', sessionId, success: false, error: 'User rejected', idempotencyKey: 'result-1' };
+    frontend.send(result);
+    assert.equal((await frontend.next('transaction_result_received')).sessionClosed, true);
+    await frontend.close();
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    resumed.send({ type: 'resume_session', sessionId, resumeSecret: initialized.resumeSecret });
+    assert.equal((await resumed.next('session_resumed')).status, 'failed');
+    resumed.send(result);
+    const replayed = await resumed.next('transaction_result_received');
+
+    assert.equal(replayed.replayed, true);
+    assert.equal(replayed.sessionClosed, true);
+    assert.equal(bot.received.filter(message => message.type === 'transaction_completed').length, 1);
+  } finally {
+    await Promise.all([bot.close(), resumed.close()]);
+    await trsocket.close();
+  }
+});
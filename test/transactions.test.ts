@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeTransaction, describeTransaction } from '../src/transactions';
+import { U128_MAX, addAmounts, nearToYocto } from '../src/amounts';
+import { DEFAULT_FT_TRANSFER_CALL_GAS, DEFAULT_FUNCTION_CALL_GAS, MAX_TRANSACTION_GAS, validateInbound } from '../src/protocol';
+
+function transactionErrors(transactionData: object): string[] {
+  const result = validateInbound({ type: 'process_transaction', sessionId: 's1', transactionData });
+  return result.ok ? [] : result.errors.map(error => `${error.path}: ${error.message}`);
+}
+
+test('amount strings are converted and added without losing precision', () => {
+  assert.equal(nearToYocto('1.25'), '1250000000000000000000000');
+  assert.equal(nearToYocto('0.000000000000000000000001'), '1');
+  assert.equal(nearToYocto('0'), '0');
+  assert.equal(addAmounts('999999999999999999999999', '1'), '1000000000000000000000000');
+  assert.equal(addAmounts(U128_MAX, '1'), '340282366920938463463374607431768211456');
+});
+
+test('legacy amounts become a single transfer', () => {
+  const normalized = normalizeTransaction({ receiver: 'shop.near', amount: '0.5', purpose: 'Entry fee' });
+
+  assert.deepEqual(normalized, {
+    receiverId: 'shop.near',
+    actions: [{ type: 'Transfer', params: { deposit: '500000000000000000000000' } }],
+    totalDeposit: '500000000000000000000000',
+    purpose: 'Entry fee'
+  });
+});
+
+test('token transfers and function calls get their defaults', () => {
+  const normalized = normalizeTransaction({
+    receiver: 'usdc.near',
+    actions: [
+      { type: 'FtTransfer', receiverId: 'shop.near', amount: '100' },
+      { type: 'FtTransfer', receiverId: 'shop.near', amount: '5', msg: 'order-7' },
+      { type: 'FunctionCall', methodName: 'ping' }
+    ]
+  });
+
+  assert.deepEqual(normalized.actions, [
+    { type: 'FunctionCall', params: { methodName: 'ft_transfer', args: { receiver_id: 'shop.near', amount: '100' }, gas: String(DEFAULT_FUNCTION_CALL_GAS), deposit: '1' } },
+    { type: 'FunctionCall', params: { methodName: 'ft_transfer_call', args: { receiver_id: 'shop.near', amount: '5', msg: 'order-7' }, gas: String(DEFAULT_FT_TRANSFER_CALL_GAS), deposit: '1' } },
+    { type: 'FunctionCall', params: { methodName: 'ping', args: {}, gas: String(DEFAULT_FUNCTION_CALL_GAS), deposit: '0' } }
+  ]);
+  assert.equal(normalized.totalDeposit, '2');
+  assert.equal(describeTransaction(normalized), 'ft_transfer, ft_transfer_call, ping to usdc.near (deposit 2 yoctoNEAR)');
+});
+
+test('transactions need a receiver and either actions or an amount', () => {
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', amount: '1' }), []);
+  assert.deepEqual(transactionErrors({ receiver: 'Shop!', amount: '1' }), ['transactionData.receiver: Expected a NEAR account ID']);
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near' }), ['transactionData: Expected either actions or amount']);
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', amount: '1', actions: [{ type: 'Transfer', deposit: '1' }] }), [
+    'transactionData: Expected either actions or amount'
+  ]);
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', actions: [{ type: 'Stake' }] }), [
+    'transactionData.actions.0.type: Expected one of Transfer, FunctionCall, FtTransfer'
+  ]);
+});
+
+test('deposits must fit in a u128', () => {
+  const transfer = (deposit: string) => ({ receiver: 'shop.near', actions: [{ type: 'Transfer', deposit }] });
+
+  assert.deepEqual(transactionErrors(transfer(U128_MAX)), []);
+  assert.deepEqual(transactionErrors(transfer('340282366920938463463374607431768211456')), ['transactionData.actions.0.deposit: Amount does not fit in a u128']);
+  assert.deepEqual(transactionErrors(transfer('01')), ['transactionData.actions.0.deposit: Expected an integer amount string']);
+});
+
+test('NEAR amounts must fit in a u128 once converted to yoctoNEAR', () => {
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', amount: '340282366920938.463463374607431768211455' }), []);
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', amount: '340282366920938.463463374607431768211456' }), [
+    'transactionData.amount: Amount does not fit in a u128 of yoctoNEAR'
+  ]);
+  assert.deepEqual(transactionErrors({ receiver: 'shop.near', amount: '1000000000000000' }), [
+    'transactionData.amount: Amount does not fit in a u128 of yoctoNEAR'
+  ]);
+});
+
+test('the summed deposit and gas of all actions are bounded', () => {
+  const half = '200000000000000000000000000000000000000';
+
+  assert.deepEqual(transactionErrors({
+    receiver: 'shop.near',
+    actions: [{ type: 'Transfer', deposit: half }, { type: 'FunctionCall', methodName: 'pay', deposit: half }]
+  }), ['transactionData.actions: Total deposit does not fit in a u128']);
+  assert.deepEqual(transactionErrors({
+    receiver: 'shop.near',
+    actions: [{ type: 'FunctionCall', methodName: 'a', gas: String(MAX_TRANSACTION_GAS) }, { type: 'FunctionCall', methodName: 'b' }]
+  }), [`transactionData.actions: Total gas ${MAX_TRANSACTION_GAS + DEFAULT_FUNCTION_CALL_GAS} exceeds the ${MAX_TRANSACTION_GAS} limit`]);
+});
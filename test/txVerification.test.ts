@@ -0,0 +1,116 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { verifyTransaction } from '../src/txVerification';
+import { normalizeTransaction } from '../src/transactions';
+import { NearConfig } from '../src/config';
+import { makeSession, quietLogger } from './helpers';
+
+// NEAR RPC stand-in: answers `tx` lookups from a table of transactions keyed by hash
+
+const transactions = new Map<string, object>();
+let server: http.Server;
+let config: NearConfig;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const { id, params } = JSON.parse(body);
+      const result = transactions.get(params.tx_hash);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result
+        ? { jsonrpc: '2.0', id, result }
+        : { jsonrpc: '2.0', id, error: { code: -32000, message: 'Server error', data: 'Transaction not found', name: 'HANDLER_ERROR', cause: { name: 'UNKNOWN_TRANSACTION' } } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  config = { rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` } as NearConfig;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const requested = normalizeTransaction({
+  receiver: 'shop.near',
+  actions: [{ type: 'FunctionCall', methodName: 'buy', args: { item: 7, qty: 1 }, deposit: '1000' }]
+});
+
+function onChain(hash: string, overrides: { signer?: string; receiver?: string; actions?: object[]; status?: object } = {}): void {
+  transactions.set(hash, {
+    status: overrides.status || { SuccessValue: '' },
+    transaction: {
+      hash,
+      signer_id: overrides.signer || 'alice.near',
+      receiver_id: overrides.receiver || 'shop.near',
+      actions: overrides.actions || [{
+        FunctionCall: {
+          method_name: 'buy',
+          // Key order differs from the request on purpose
+          args: Buffer.from(JSON.stringify({ qty: 1, item: 7 })).toString('base64'),
+          gas: 30000000000000,
+          deposit: '1000'
+        }
+      }]
+    },
+    transaction_outcome: {},
+    receipts_outcome: []
+  });
+}
+
+const session = makeSession({ walletId: 'alice.near', status: 'tx_pending' });
+const notCredited = () => false;
+
+test('a transaction matching the request verifies', async () => {
+  onChain('good');
+  const result = await verifyTransaction(config, session, requested, 'good', notCredited, quietLogger);
+  assert.deepEqual(result, { verified: true });
+});
+
+test('a different receiver is rejected', async () => {
+  onChain('wrong-receiver', { receiver: 'other.near' });
+  const result = await verifyTransaction(config, session, requested, 'wrong-receiver', notCredited, quietLogger);
+  assert.equal(result.verified, false);
+  assert.match(result.reason || '', /Receiver/);
+});
+
+test('different actions are rejected', async () => {
+  onChain('wrong-deposit', {
+    actions: [{ FunctionCall: { method_name: 'buy', args: Buffer.from('{"item":7,"qty":1}').toString('base64'), gas: 1, deposit: '1' } }]
+  });
+  onChain('wrong-method', {
+    actions: [{ FunctionCall: { method_name: 'sell', args: Buffer.from('{"item":7,"qty":1}').toString('base64'), gas: 1, deposit: '1000' } }]
+  });
+  onChain('extra-action', {
+    actions: [
+      { FunctionCall: { method_name: 'buy', args: Buffer.from('{"item":7,"qty":1}').toString('base64'), gas: 1, deposit: '1000' } },
+      { Transfer: { deposit: '5' } }
+    ]
+  });
+
+  for (const hash of ['wrong-deposit', 'wrong-method', 'extra-action']) {
+    const result = await verifyTransaction(config, session, requested, hash, notCredited, quietLogger);
+    assert.equal(result.verified, false, hash);
+    assert.match(result.reason || '', /Action/, hash);
+  }
+});
+
+test('another signer or a failed transaction is rejected', async () => {
+  onChain('wrong-signer', { signer: 'mallory.near' });
+  onChain('failed', { status: { Failure: { ActionError: {} } } });
+
+  assert.match((await verifyTransaction(config, session, requested, 'wrong-signer', notCredited, quietLogger)).reason || '', /Signer/);
+  assert.match((await verifyTransaction(config, session, requested, 'failed', notCredited, quietLogger)).reason || '', /did not succeed/);
+});
+
+test('a hash already credited is refused without asking the RPC', async () => {
+  const result = await verifyTransaction(config, session, requested, 'good', hash => hash === 'good', quietLogger);
+  assert.deepEqual(result, { verified: false, reason: 'Transaction was already credited' });
+});
+
+test('unknown hashes and sessions without a request are rejected', async () => {
+  assert.equal((await verifyTransaction(config, session, requested, 'missing', notCredited, quietLogger)).reason, 'Transaction not found');
+  assert.equal((await verifyTransaction(config, session, undefined, 'good', notCredited, quietLogger)).verified, false);
+  assert.equal((await verifyTransaction(config, session, requested, undefined, notCredited, quietLogger)).reason, 'Missing transaction hash');
+});
@@ -0,0 +1,154 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { KeyPair } from 'near-api-js';
+import { newWalletNonce, walletChallenge, verifyWalletProof } from '../src/walletProof';
+import { SignedWalletMessage, WalletChallenge } from '../src/protocol';
+import { WalletProofConfig } from '../src/config';
+import { quietLogger } from './helpers';
+import { startServer, connectBot, connectFrontend } from './serverHarness';
+
+// NEAR RPC stand-in: answers `view_access_key` queries from a table of "account/publicKey" permissions
+
+const accessKeys = new Map<string, unknown>();
+let server: http.Server;
+let config: WalletProofConfig;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const { id, params } = JSON.parse(body);
+      const permission = accessKeys.get(`${params.account_id}/${params.public_key}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(permission
+        ? { jsonrpc: '2.0', id, result: { nonce: 1, permission, block_height: 1, block_hash: '11111111111111111111111111111111' } }
+        : { jsonrpc: '2.0', id, error: { code: -32000, message: 'Server error', data: 'Access key not found', name: 'HANDLER_ERROR', cause: { name: 'UNKNOWN_ACCESS_KEY' } } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  config = {
+    required: true,
+    message: 'Connect to the bot',
+    recipient: 'bot.example',
+    checkAccessKey: true,
+    rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  };
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+// What a NEP-413 wallet signs: sha256(tag || borsh(payload))
+function signChallenge(keyPair: KeyPair, accountId: string, challenge: WalletChallenge, callbackUrl?: string): SignedWalletMessage {
+  const tag = Buffer.alloc(4);
+  tag.writeUInt32LE(2147484061, 0);
+  const hash = crypto.createHash('sha256').update(Buffer.concat([
+    tag,
+    borshString(challenge.message),
+    Buffer.from(challenge.nonce, 'base64'),
+    borshString(challenge.recipient),
+    callbackUrl === undefined ? Buffer.from([0]) : Buffer.concat([Buffer.from([1]), borshString(callbackUrl)])
+  ])).digest();
+
+  return {
+    accountId,
+    publicKey: keyPair.getPublicKey().toString(),
+    signature: Buffer.from(keyPair.sign(hash).signature).toString('base64'),
+    ...(callbackUrl !== undefined && { callbackUrl })
+  };
+}
+
+function fullAccess(accountId: string, keyPair: KeyPair): void {
+  accessKeys.set(`${accountId}/${keyPair.getPublicKey().toString()}`, 'FullAccess');
+}
+
+test('a challenge signed with a full-access key verifies', async () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const challenge = walletChallenge(config, newWalletNonce());
+  fullAccess('alice.near', keyPair);
+
+  const plain = await verifyWalletProof(config, challenge, 'alice.near', signChallenge(keyPair, 'alice.near', challenge), quietLogger);
+  const withCallback = await verifyWalletProof(config, challenge, 'alice.near', signChallenge(keyPair, 'alice.near', challenge, 'https://bot.example/back'), quietLogger);
+
+  assert.deepEqual(plain, { verified: true });
+  assert.deepEqual(withCallback, { verified: true });
+});
+
+test('tampered signatures and other challenges are rejected', async () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const challenge = walletChallenge(config, newWalletNonce());
+  fullAccess('alice.near', keyPair);
+  const signed = signChallenge(keyPair, 'alice.near', challenge);
+
+  const flipped = Buffer.from(signed.signature, 'base64');
+  flipped[0] ^= 1;
+  const tampered = { ...signed, signature: flipped.toString('base64') };
+  const otherNonce = walletChallenge(config, newWalletNonce());
+  const otherKey = { ...signed, publicKey: KeyPair.fromRandom('ed25519').getPublicKey().toString() };
+
+  assert.equal((await verifyWalletProof(config, challenge, 'alice.near', tampered, quietLogger)).reason, 'Invalid signature');
+  assert.equal((await verifyWalletProof(config, otherNonce, 'alice.near', signed, quietLogger)).reason, 'Invalid signature');
+  assert.equal((await verifyWalletProof(config, challenge, 'alice.near', otherKey, quietLogger)).reason, 'Invalid signature');
+  assert.equal((await verifyWalletProof(config, challenge, 'alice.near', { ...signed, callbackUrl: 'https://evil.example' }, quietLogger)).reason, 'Invalid signature');
+});
+
+test('a proof for another account is rejected', async () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const challenge = walletChallenge(config, newWalletNonce());
+  fullAccess('alice.near', keyPair);
+
+  const result = await verifyWalletProof(config, challenge, 'bob.near', signChallenge(keyPair, 'alice.near', challenge), quietLogger);
+  assert.equal(result.reason, 'Signed message is for a different account');
+});
+
+test('keys that are not full-access keys of the account are rejected', async () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const challenge = walletChallenge(config, newWalletNonce());
+  const signedByBob = signChallenge(keyPair, 'bob.near', challenge);
+  accessKeys.set(`carol.near/${keyPair.getPublicKey().toString()}`, { FunctionCall: { allowance: null, receiver_id: 'app.near', method_names: [] } });
+
+  assert.equal((await verifyWalletProof(config, challenge, 'bob.near', signedByBob, quietLogger)).reason, 'Key not found on the account');
+  assert.equal(
+    (await verifyWalletProof(config, challenge, 'carol.near', signChallenge(keyPair, 'carol.near', challenge), quietLogger)).reason,
+    'Key is not a full-access key of the account'
+  );
+});
+
+test('the access key lookup can be turned off', async () => {
+  const keyPair = KeyPair.fromRandom('ed25519');
+  const challenge = walletChallenge(config, newWalletNonce());
+
+  const result = await verifyWalletProof({ ...config, checkAccessKey: false }, challenge, 'dave.near', signChallenge(keyPair, 'dave.near', challenge), quietLogger);
+  assert.deepEqual(result, { verified: true });
+});
+
+test('the server only connects wallets that signed the session challenge', async () => {
+  const { trsocket, url } = await startServer({ WALLET_PROOF_REQUIRED: 'true', WALLET_PROOF_CHECK_ACCESS_KEY: 'false' });
+  const bot = await connectBot(url);
+  bot.send({ type: 'create_session', userId: 1, chatId: 2, username: 'user' });
+  const { sessionId, token } = await bot.next('session_created');
+  const { frontend, initialized } = await connectFrontend(url, token);
+  const keyPair = KeyPair.fromRandom('ed25519');
+
+  frontend.send({ type: 'wallet_connected', sessionId, walletId: 'alice.near' });
+  assert.equal((await frontend.next('error')).code, 'wallet_proof_failed');
+  frontend.send({ type: 'wallet_connected', sessionId, walletId: 'alice.near', signedMessage: signChallenge(keyPair, 'alice.near', initialized.walletChallenge) });
+  await frontend.next('wallet_connection_received');
+
+  const connected = await bot.next('wallet_connected');
+  assert.equal(connected.walletId, 'alice.near');
+  assert.equal(connected.verified, true);
+
+  await Promise.all([bot.close(), frontend.close()]);
+  await trsocket.close();
+});